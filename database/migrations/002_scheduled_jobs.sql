@@ -0,0 +1,19 @@
+-- ============================================
+-- 002: 予約ジョブテーブル
+-- ============================================
+
+-- スケジューラーの永続ジョブキュー
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+    id TEXT PRIMARY KEY,                          -- UUID
+    post_id TEXT NOT NULL,                        -- posts.id
+    scheduled_at DATETIME NOT NULL,               -- 実行予定日時（リトライ時は再設定）
+    status TEXT DEFAULT 'pending',                -- 'pending', 'processing', 'posted', 'failed', 'cancelled', 'missed', 'skipped'
+    retry_count INTEGER DEFAULT 0,
+    max_retries INTEGER DEFAULT 3,
+    last_error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_status ON scheduled_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_scheduled_at ON scheduled_jobs(scheduled_at);
@@ -0,0 +1,6 @@
+-- ============================================
+-- 003: プラットフォーム別の投稿内容
+-- ============================================
+
+-- JSONオブジェクト: プラットフォーム -> { content, title, hashtags, mediaPaths }
+ALTER TABLE posts ADD COLUMN variants TEXT;
@@ -0,0 +1,6 @@
+-- ============================================
+-- 004: 長文のスレッド自動分割
+-- ============================================
+
+-- 1: X / Bluesky / Threads で文字数超過時に返信スレッドとして投稿
+ALTER TABLE posts ADD COLUMN auto_thread BOOLEAN DEFAULT 0;
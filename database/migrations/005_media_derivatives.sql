@@ -0,0 +1,7 @@
+-- ============================================
+-- 005: プラットフォーム別のメディア派生ファイル
+-- ============================================
+
+-- JSON配列: [{ platform, filePath, fileType, fileSize, width, height }]
+-- 元ファイルをリサイズ・再圧縮・JPEG変換したもの
+ALTER TABLE media_files ADD COLUMN derivatives TEXT;
@@ -0,0 +1,6 @@
+-- ============================================
+-- 006: 画像の代替テキスト
+-- ============================================
+
+-- スクリーンリーダー向けの説明。Bluesky・X・Instagram・Threadsに送信する
+ALTER TABLE media_files ADD COLUMN alt_text TEXT;
@@ -0,0 +1,13 @@
+-- ============================================
+-- 007: 再開可能なアップロードセッション
+-- ============================================
+
+-- 中断した動画アップロードをアプリ再起動後も続きから再開するためのセッション
+CREATE TABLE IF NOT EXISTS upload_sessions (
+    id TEXT PRIMARY KEY,                          -- '{platform}:{チャンネルID}:{media_files.id}'
+    platform TEXT NOT NULL,
+    upload_url TEXT NOT NULL,                     -- プラットフォームが発行したセッションURI
+    file_path TEXT NOT NULL,
+    file_size INTEGER NOT NULL,                   -- バイト数（ファイルが変わっていないかの確認用）
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
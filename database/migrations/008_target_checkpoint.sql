@@ -0,0 +1,7 @@
+-- ============================================
+-- 008: 投稿途中のチェックポイント
+-- ============================================
+
+-- 公開済みの部分のID（JSON配列）。スレッドの途中で失敗した場合や
+-- 処理待ちの公開IDを保持し、再試行時に続きから再開する
+ALTER TABLE cross_post_targets ADD COLUMN checkpoint TEXT;
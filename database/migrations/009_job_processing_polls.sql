@@ -0,0 +1,6 @@
+-- ============================================
+-- 009: 処理待ちの確認回数
+-- ============================================
+
+-- プラットフォームが動画を処理中の間、ジョブが状態を確認した回数。上限で打ち切る
+ALTER TABLE scheduled_jobs ADD COLUMN processing_polls INTEGER DEFAULT 0;
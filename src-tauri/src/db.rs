@@ -0,0 +1,65 @@
+//! SQLite migrations, applied by tauri-plugin-sql when the frontend
+//! first loads the database.
+
+use tauri_plugin_sql::{Migration, MigrationKind};
+
+pub const DATABASE_URL: &str = "sqlite:cross-link.db";
+
+pub fn migrations() -> Vec<Migration> {
+    vec![
+        Migration {
+            version: 1,
+            description: "create_initial_tables",
+            sql: include_str!("../../database/schema.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 2,
+            description: "create_scheduled_jobs",
+            sql: include_str!("../../database/migrations/002_scheduled_jobs.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 3,
+            description: "add_post_variants",
+            sql: include_str!("../../database/migrations/003_post_variants.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 4,
+            description: "add_post_auto_thread",
+            sql: include_str!("../../database/migrations/004_post_auto_thread.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 5,
+            description: "add_media_derivatives",
+            sql: include_str!("../../database/migrations/005_media_derivatives.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 6,
+            description: "add_media_alt_text",
+            sql: include_str!("../../database/migrations/006_media_alt_text.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 7,
+            description: "create_upload_sessions",
+            sql: include_str!("../../database/migrations/007_upload_sessions.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 8,
+            description: "add_target_checkpoint",
+            sql: include_str!("../../database/migrations/008_target_checkpoint.sql"),
+            kind: MigrationKind::Up,
+        },
+        Migration {
+            version: 9,
+            description: "add_job_processing_polls",
+            sql: include_str!("../../database/migrations/009_job_processing_polls.sql"),
+            kind: MigrationKind::Up,
+        },
+    ]
+}
@@ -1,3 +1,13 @@
+mod db;
+mod media;
+mod oauth;
+mod scheduler;
+mod transform;
+mod tray;
+mod vault;
+
+use tauri::WindowEvent;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -8,7 +18,42 @@ fn greet(name: &str) -> String {
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_dialog::init())
+        .plugin(
+            tauri_plugin_sql::Builder::default()
+                .add_migrations(db::DATABASE_URL, db::migrations())
+                .build(),
+        )
+        .manage(scheduler::SchedulerState::default())
+        .manage(vault::VaultState::default())
+        .setup(|app| {
+            tray::setup(app)?;
+            scheduler::spawn(app.handle().clone());
+            Ok(())
+        })
+        .on_window_event(|window, event| {
+            // Hide to the tray instead of quitting so scheduled posts keep going out
+            if let WindowEvent::CloseRequested { api, .. } = event {
+                let _ = window.hide();
+                api.prevent_close();
+            }
+        })
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            scheduler::scheduler_sync_jobs,
+            oauth::oauth_listen,
+            media::media_probe,
+            media::media_allow,
+            media::media_size,
+            media::media_save_thumbnail,
+            transform::media_transform,
+            vault::vault_store,
+            vault::vault_load,
+            vault::vault_delete,
+            vault::vault_status,
+            vault::vault_unlock,
+            vault::vault_set_passphrase,
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -0,0 +1,170 @@
+//! Media file probing and thumbnail storage.
+//!
+//! `media_probe` reads a file's name, size and MIME type (sniffed from its
+//! leading bytes, falling back to the extension). Dimensions, duration and
+//! thumbnails are taken in the webview, which can decode every format the
+//! platforms accept; `media_save_thumbnail` stores the encoded JPEG under
+//! the app data directory. Probed files are added to the asset protocol
+//! scope so the webview can load them; thumbnails are in scope statically.
+//! The probed paths are recorded so `media_allow` can restore that scope
+//! after a restart without letting the webview widen it to other files.
+//! `media_size` only reads a file's size and grants nothing.
+
+use std::collections::BTreeSet;
+use std::fs::{self, File};
+use std::io::Read;
+use std::path::{Path, PathBuf};
+
+use serde::Serialize;
+use tauri::{AppHandle, Manager};
+
+const THUMBNAIL_DIR: &str = "thumbnails";
+const GRANTS_FILE: &str = "media_grants.json";
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct MediaProbe {
+    file_name: String,
+    file_type: String,
+    file_size: u64,
+}
+
+fn sniff_mime(header: &[u8]) -> Option<&'static str> {
+    match header {
+        [0xFF, 0xD8, 0xFF, ..] => Some("image/jpeg"),
+        [0x89, b'P', b'N', b'G', ..] => Some("image/png"),
+        [b'G', b'I', b'F', b'8', ..] => Some("image/gif"),
+        [b'R', b'I', b'F', b'F', _, _, _, _, b'W', b'E', b'B', b'P', ..] => Some("image/webp"),
+        [0x1A, 0x45, 0xDF, 0xA3, ..] => Some("video/webm"),
+        [_, _, _, _, b'f', b't', b'y', b'p', b'q', b't', ..] => Some("video/quicktime"),
+        [_, _, _, _, b'f', b't', b'y', b'p', ..] => Some("video/mp4"),
+        _ => None,
+    }
+}
+
+fn mime_from_extension(path: &Path) -> &'static str {
+    let ext = path
+        .extension()
+        .and_then(|e| e.to_str())
+        .map(|e| e.to_ascii_lowercase())
+        .unwrap_or_default();
+
+    match ext.as_str() {
+        "jpg" | "jpeg" => "image/jpeg",
+        "png" => "image/png",
+        "gif" => "image/gif",
+        "webp" => "image/webp",
+        "mp4" | "m4v" => "video/mp4",
+        "mov" => "video/quicktime",
+        "webm" => "video/webm",
+        _ => "application/octet-stream",
+    }
+}
+
+fn grants_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir.join(GRANTS_FILE))
+}
+
+/// Paths previously granted by `media_probe`, stored canonicalized.
+fn read_grants(app: &AppHandle) -> Result<BTreeSet<PathBuf>, String> {
+    let path = grants_path(app)?;
+    if !path.exists() {
+        return Ok(BTreeSet::new());
+    }
+    let contents = fs::read_to_string(&path).map_err(|e| e.to_string())?;
+    serde_json::from_str(&contents).map_err(|e| e.to_string())
+}
+
+fn record_grant(app: &AppHandle, path: &Path) -> Result<(), String> {
+    let mut grants = read_grants(app)?;
+    if grants.insert(path.to_path_buf()) {
+        let contents = serde_json::to_vec(&grants).map_err(|e| e.to_string())?;
+        fs::write(grants_path(app)?, contents).map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
+
+/// Read a media file's name, size and MIME type and allow the webview to load it.
+#[tauri::command]
+pub fn media_probe(app: AppHandle, path: String) -> Result<MediaProbe, String> {
+    let path = PathBuf::from(path);
+    let metadata = fs::metadata(&path).map_err(|e| e.to_string())?;
+    if !metadata.is_file() {
+        return Err("Not a file".into());
+    }
+
+    let mut header = [0u8; 12];
+    let read = File::open(&path)
+        .and_then(|mut file| file.read(&mut header))
+        .map_err(|e| e.to_string())?;
+
+    let file_type = sniff_mime(&header[..read]).unwrap_or_else(|| mime_from_extension(&path));
+    let file_name = path
+        .file_name()
+        .map(|n| n.to_string_lossy().into_owned())
+        .unwrap_or_default();
+
+    let canonical = path.canonicalize().map_err(|e| e.to_string())?;
+    record_grant(&app, &canonical)?;
+    app.asset_protocol_scope()
+        .allow_file(&canonical)
+        .map_err(|e| e.to_string())?;
+
+    Ok(MediaProbe {
+        file_name,
+        file_type: file_type.into(),
+        file_size: metadata.len(),
+    })
+}
+
+/// Read a file's size in bytes without changing the asset scope.
+#[tauri::command]
+pub fn media_size(path: String) -> Result<u64, String> {
+    let metadata = fs::metadata(&path).map_err(|e| e.to_string())?;
+    if !metadata.is_file() {
+        return Err("Not a file".into());
+    }
+    Ok(metadata.len())
+}
+
+/// Allow the webview to load a file again; the asset scope granted by
+/// `media_probe` does not survive an app restart. Only files probed
+/// before are allowed.
+#[tauri::command]
+pub fn media_allow(app: AppHandle, path: String) -> Result<(), String> {
+    let path = PathBuf::from(path)
+        .canonicalize()
+        .map_err(|e| e.to_string())?;
+    if !path.is_file() {
+        return Err("Not a file".into());
+    }
+    if !read_grants(&app)?.contains(&path) {
+        return Err("File was not added as media".into());
+    }
+
+    app.asset_protocol_scope()
+        .allow_file(&path)
+        .map_err(|e| e.to_string())
+}
+
+/// Store a JPEG thumbnail for a media file and return its path.
+#[tauri::command]
+pub fn media_save_thumbnail(app: AppHandle, media_id: String, data: Vec<u8>) -> Result<String, String> {
+    // The id becomes a file name, so only accept UUID-like values
+    if media_id.is_empty() || !media_id.chars().all(|c| c.is_ascii_alphanumeric() || c == '-') {
+        return Err("Invalid media id".into());
+    }
+
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join(THUMBNAIL_DIR);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+
+    let path = dir.join(format!("{media_id}.jpg"));
+    fs::write(&path, data).map_err(|e| e.to_string())?;
+    Ok(path.to_string_lossy().into_owned())
+}
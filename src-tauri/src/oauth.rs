@@ -0,0 +1,159 @@
+//! Loopback OAuth redirect listener.
+//!
+//! `oauth_listen` binds a temporary listener on 127.0.0.1 and waits on a
+//! background thread for the provider to redirect the browser back to
+//! `/callback`. The query (`code`, `state` or `error`) is forwarded to the
+//! frontend as OAUTH_CALLBACK_EVENT, which validates `state` and exchanges
+//! the code. The listener gives up after LISTEN_TIMEOUT.
+
+use std::io::{BufRead, BufReader, ErrorKind, Write};
+use std::net::{TcpListener, TcpStream};
+use std::thread;
+use std::time::{Duration, Instant};
+
+use serde::Serialize;
+use tauri::{AppHandle, Emitter};
+
+pub const OAUTH_CALLBACK_EVENT: &str = "oauth://callback";
+const CALLBACK_PATH: &str = "/callback";
+const LISTEN_TIMEOUT: Duration = Duration::from_secs(5 * 60);
+const POLL_INTERVAL: Duration = Duration::from_millis(200);
+
+const SUCCESS_PAGE: &str = "<!doctype html><meta charset=\"utf-8\"><title>CROSS LINK ACCESS</title>\
+<p>認証が完了しました。このウィンドウを閉じてアプリに戻ってください。</p>\
+<p>Authentication complete. You can close this window and return to the app.</p>";
+const ERROR_PAGE: &str = "<!doctype html><meta charset=\"utf-8\"><title>CROSS LINK ACCESS</title>\
+<p>認証に失敗しました。アプリに戻って再度お試しください。</p>\
+<p>Authentication failed. Return to the app and try again.</p>";
+
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct OAuthCallback {
+    port: u16,
+    code: Option<String>,
+    state: Option<String>,
+    error: Option<String>,
+}
+
+/// Start listening for one OAuth redirect and return the bound port.
+/// Pass a port when the provider only accepts a pre-registered redirect URI.
+#[tauri::command]
+pub fn oauth_listen(app: AppHandle, port: Option<u16>) -> Result<u16, String> {
+    let listener = TcpListener::bind(("127.0.0.1", port.unwrap_or(0))).map_err(|e| e.to_string())?;
+    let port = listener.local_addr().map_err(|e| e.to_string())?.port();
+    listener.set_nonblocking(true).map_err(|e| e.to_string())?;
+
+    thread::spawn(move || {
+        let callback = wait_for_callback(&listener, port).unwrap_or(OAuthCallback {
+            port,
+            code: None,
+            state: None,
+            error: Some("timeout".into()),
+        });
+        let _ = app.emit(OAUTH_CALLBACK_EVENT, callback);
+    });
+
+    Ok(port)
+}
+
+fn wait_for_callback(listener: &TcpListener, port: u16) -> Option<OAuthCallback> {
+    let deadline = Instant::now() + LISTEN_TIMEOUT;
+
+    while Instant::now() < deadline {
+        match listener.accept() {
+            Ok((stream, _)) => {
+                // Browsers also ask for /favicon.ico; keep waiting for the real redirect
+                if let Some(callback) = handle_connection(stream, port) {
+                    return Some(callback);
+                }
+            }
+            Err(e) if e.kind() == ErrorKind::WouldBlock => thread::sleep(POLL_INTERVAL),
+            Err(_) => return None,
+        }
+    }
+
+    None
+}
+
+fn handle_connection(stream: TcpStream, port: u16) -> Option<OAuthCallback> {
+    stream.set_nonblocking(false).ok()?;
+    stream.set_read_timeout(Some(Duration::from_secs(5))).ok()?;
+
+    // Request line: "GET /callback?code=...&state=... HTTP/1.1"
+    let mut request_line = String::new();
+    BufReader::new(&stream).read_line(&mut request_line).ok()?;
+    let target = request_line.split_whitespace().nth(1)?;
+    let (path, query) = target.split_once('?').unwrap_or((target, ""));
+
+    if path != CALLBACK_PATH {
+        respond(&stream, "404 Not Found", "");
+        return None;
+    }
+
+    let mut callback = OAuthCallback {
+        port,
+        code: None,
+        state: None,
+        error: None,
+    };
+    let mut error_description = None;
+
+    for pair in query.split('&') {
+        let (key, value) = pair.split_once('=').unwrap_or((pair, ""));
+        let value = percent_decode(value);
+        match key {
+            "code" => callback.code = Some(value),
+            "state" => callback.state = Some(value),
+            "error" => callback.error = Some(value),
+            "error_description" => error_description = Some(value),
+            _ => {}
+        }
+    }
+
+    if let (Some(error), Some(description)) = (&callback.error, error_description) {
+        callback.error = Some(format!("{}: {}", error, description));
+    }
+
+    let page = if callback.code.is_some() { SUCCESS_PAGE } else { ERROR_PAGE };
+    respond(&stream, "200 OK", page);
+    Some(callback)
+}
+
+fn respond(mut stream: &TcpStream, status: &str, body: &str) {
+    let response = format!(
+        "HTTP/1.1 {}\r\nContent-Type: text/html; charset=utf-8\r\nContent-Length: {}\r\nConnection: close\r\n\r\n{}",
+        status,
+        body.len(),
+        body
+    );
+    let _ = stream.write_all(response.as_bytes());
+    let _ = stream.flush();
+}
+
+/// Decode an application/x-www-form-urlencoded query value
+fn percent_decode(value: &str) -> String {
+    let bytes = value.as_bytes();
+    let mut decoded = Vec::with_capacity(bytes.len());
+    let mut i = 0;
+
+    while i < bytes.len() {
+        match bytes[i] {
+            b'+' => decoded.push(b' '),
+            b'%' if i + 2 < bytes.len() => {
+                let high = (bytes[i + 1] as char).to_digit(16);
+                let low = (bytes[i + 2] as char).to_digit(16);
+                match (high, low) {
+                    (Some(high), Some(low)) => {
+                        decoded.push((high * 16 + low) as u8);
+                        i += 2;
+                    }
+                    _ => decoded.push(b'%'),
+                }
+            }
+            byte => decoded.push(byte),
+        }
+        i += 1;
+    }
+
+    String::from_utf8_lossy(&decoded).into_owned()
+}
@@ -0,0 +1,93 @@
+//! Native due-job loop for scheduled posts.
+//!
+//! The frontend owns the job queue (useScheduleStore) and mirrors its pending
+//! jobs here with `scheduler_sync_jobs`. A background thread checks for due
+//! jobs and emits `scheduler://job-due` so the webview publishes them, even
+//! while the window is hidden in the system tray.
+
+use std::collections::HashMap;
+use std::sync::Mutex;
+use std::thread;
+use std::time::{Duration, Instant, SystemTime, UNIX_EPOCH};
+
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Emitter, Manager, State};
+
+pub const JOB_DUE_EVENT: &str = "scheduler://job-due";
+
+const CHECK_INTERVAL: Duration = Duration::from_secs(30);
+// Emit again if the frontend has not picked the job up by then
+const REDISPATCH_AFTER: Duration = Duration::from_secs(10 * 60);
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct NativeJob {
+    pub id: String,
+    pub post_id: String,
+    pub scheduled_at_ms: i64,
+}
+
+#[derive(Default)]
+pub struct SchedulerState {
+    jobs: Mutex<HashMap<String, NativeJob>>,
+    // job id -> (scheduled_at_ms it was emitted for, when it was emitted)
+    dispatched: Mutex<HashMap<String, (i64, Instant)>>,
+}
+
+/// Replace the native job set with the frontend's pending jobs.
+#[tauri::command]
+pub fn scheduler_sync_jobs(state: State<'_, SchedulerState>, jobs: Vec<NativeJob>) {
+    let mut current = state.jobs.lock().unwrap();
+    *current = jobs.into_iter().map(|job| (job.id.clone(), job)).collect();
+    state
+        .dispatched
+        .lock()
+        .unwrap()
+        .retain(|id, _| current.contains_key(id));
+}
+
+fn now_ms() -> i64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as i64)
+        .unwrap_or(0)
+}
+
+fn take_due_jobs(state: &SchedulerState) -> Vec<NativeJob> {
+    let now = now_ms();
+    let jobs = state.jobs.lock().unwrap();
+    let mut dispatched = state.dispatched.lock().unwrap();
+
+    let due: Vec<NativeJob> = jobs
+        .values()
+        .filter(|job| job.scheduled_at_ms <= now)
+        .filter(|job| match dispatched.get(&job.id) {
+            // A retry reschedules the job, so a new time means a new dispatch
+            Some((at_ms, emitted)) => {
+                *at_ms != job.scheduled_at_ms || emitted.elapsed() >= REDISPATCH_AFTER
+            }
+            None => true,
+        })
+        .cloned()
+        .collect();
+
+    for job in &due {
+        dispatched.insert(job.id.clone(), (job.scheduled_at_ms, Instant::now()));
+    }
+
+    due
+}
+
+/// Start the background loop that emits due jobs to the frontend.
+pub fn spawn(app: AppHandle) {
+    thread::spawn(move || loop {
+        thread::sleep(CHECK_INTERVAL);
+
+        let state = app.state::<SchedulerState>();
+        for job in take_due_jobs(&state) {
+            if let Err(error) = app.emit(JOB_DUE_EVENT, &job) {
+                eprintln!("[Scheduler] Failed to emit job {}: {}", job.id, error);
+            }
+        }
+    });
+}
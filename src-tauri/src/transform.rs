@@ -0,0 +1,208 @@
+//! Platform-specific image derivatives.
+//!
+//! `media_transform` checks an image against one platform's limits (format,
+//! byte size, longest edge, aspect ratio) and, when it does not fit, writes a
+//! JPEG derivative under the app data directory: transparency is flattened
+//! onto white, the aspect ratio is padded or cropped into range, the image is
+//! scaled down, and quality is lowered until the file is small enough.
+
+use std::fs;
+
+use image::imageops::{self, FilterType};
+use image::codecs::jpeg::JpegEncoder;
+use image::{DynamicImage, ImageFormat, ImageReader, Rgb, RgbImage};
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Manager};
+
+const DERIVED_DIR: &str = "derived";
+const START_QUALITY: u8 = 90;
+const MIN_QUALITY: u8 = 50;
+const QUALITY_STEP: u8 = 10;
+// Scale applied when even MIN_QUALITY is too large
+const SHRINK_FACTOR: f64 = 0.85;
+const MIN_EDGE: u32 = 64;
+const PAD_COLOR: Rgb<u8> = Rgb([255, 255, 255]);
+
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TransformOptions {
+    max_bytes: u64,
+    max_dimension: u32,
+    // MIME types the platform accepts as-is
+    formats: Vec<String>,
+    min_aspect: Option<f64>,
+    max_aspect: Option<f64>,
+    // Crop instead of padding when the aspect ratio is out of range
+    #[serde(default)]
+    crop: bool,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DerivedImage {
+    file_path: String,
+    file_type: String,
+    file_size: u64,
+    width: u32,
+    height: u32,
+}
+
+fn mime_of(format: ImageFormat) -> &'static str {
+    match format {
+        ImageFormat::Jpeg => "image/jpeg",
+        ImageFormat::Png => "image/png",
+        ImageFormat::Gif => "image/gif",
+        ImageFormat::WebP => "image/webp",
+        _ => "application/octet-stream",
+    }
+}
+
+fn target_aspect(aspect: f64, options: &TransformOptions) -> f64 {
+    let aspect = options.min_aspect.map_or(aspect, |min| aspect.max(min));
+    options.max_aspect.map_or(aspect, |max| aspect.min(max))
+}
+
+// JPEG has no alpha channel, so composite transparent pixels onto white
+fn flatten(image: DynamicImage) -> RgbImage {
+    if !image.color().has_alpha() {
+        return image.to_rgb8();
+    }
+
+    let rgba = image.to_rgba8();
+    RgbImage::from_fn(rgba.width(), rgba.height(), |x, y| {
+        let [r, g, b, a] = rgba.get_pixel(x, y).0;
+        let alpha = a as u32;
+        let blend = |c: u8| ((c as u32 * alpha + 255 * (255 - alpha)) / 255) as u8;
+        Rgb([blend(r), blend(g), blend(b)])
+    })
+}
+
+fn fit_aspect(image: RgbImage, target: f64, crop: bool) -> RgbImage {
+    let (width, height) = image.dimensions();
+    let aspect = width as f64 / height as f64;
+
+    if crop {
+        let (w, h) = if aspect > target {
+            (((height as f64) * target).round() as u32, height)
+        } else {
+            (width, ((width as f64) / target).round() as u32)
+        };
+        return imageops::crop_imm(&image, (width - w) / 2, (height - h) / 2, w, h).to_image();
+    }
+
+    let (w, h) = if aspect > target {
+        (width, ((width as f64) / target).round() as u32)
+    } else {
+        (((height as f64) * target).round() as u32, height)
+    };
+    let mut canvas = RgbImage::from_pixel(w, h, PAD_COLOR);
+    imageops::overlay(&mut canvas, &image, ((w - width) / 2) as i64, ((h - height) / 2) as i64);
+    canvas
+}
+
+fn scale_to(image: &RgbImage, max_edge: u32) -> RgbImage {
+    let (width, height) = image.dimensions();
+    let scale = max_edge as f64 / width.max(height) as f64;
+    if scale >= 1.0 {
+        return image.clone();
+    }
+
+    let w = ((width as f64) * scale).round().max(1.0) as u32;
+    let h = ((height as f64) * scale).round().max(1.0) as u32;
+    imageops::resize(image, w, h, FilterType::Lanczos3)
+}
+
+fn encode_jpeg(image: &RgbImage, quality: u8) -> Result<Vec<u8>, String> {
+    let mut data = Vec::new();
+    JpegEncoder::new_with_quality(&mut data, quality)
+        .encode_image(image)
+        .map_err(|e| e.to_string())?;
+    Ok(data)
+}
+
+// Lower the quality first, then shrink, until the JPEG fits in max_bytes
+fn encode_within(mut image: RgbImage, max_bytes: u64) -> Result<(RgbImage, Vec<u8>), String> {
+    loop {
+        let mut quality = START_QUALITY;
+        loop {
+            let data = encode_jpeg(&image, quality)?;
+            if data.len() as u64 <= max_bytes {
+                return Ok((image, data));
+            }
+            if quality <= MIN_QUALITY {
+                break;
+            }
+            quality = quality.saturating_sub(QUALITY_STEP).max(MIN_QUALITY);
+        }
+
+        let edge = ((image.width().max(image.height()) as f64) * SHRINK_FACTOR) as u32;
+        if edge < MIN_EDGE {
+            return Err("Image cannot be compressed below the size limit".into());
+        }
+        image = scale_to(&image, edge);
+    }
+}
+
+/// Write a derivative of the image that satisfies the options, or return
+/// None when the original can be uploaded unchanged.
+#[tauri::command]
+pub fn media_transform(
+    app: AppHandle,
+    path: String,
+    output_name: String,
+    options: TransformOptions,
+) -> Result<Option<DerivedImage>, String> {
+    // The name becomes a file name, so only accept id-like values
+    if output_name.is_empty()
+        || !output_name
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '_')
+    {
+        return Err("Invalid output name".into());
+    }
+
+    let source_size = fs::metadata(&path).map_err(|e| e.to_string())?.len();
+    let reader = ImageReader::open(&path)
+        .and_then(|r| r.with_guessed_format())
+        .map_err(|e| e.to_string())?;
+    let format = reader.format().ok_or("Unknown image format")?;
+    let image = reader.decode().map_err(|e| e.to_string())?;
+
+    let (width, height) = (image.width(), image.height());
+    let aspect = width as f64 / height as f64;
+    let target = target_aspect(aspect, &options);
+    let aspect_ok = (target - aspect).abs() < 0.01;
+
+    if options.formats.iter().any(|f| f == mime_of(format))
+        && source_size <= options.max_bytes
+        && width.max(height) <= options.max_dimension
+        && aspect_ok
+    {
+        return Ok(None);
+    }
+
+    let mut derived = flatten(image);
+    if !aspect_ok {
+        derived = fit_aspect(derived, target, options.crop);
+    }
+    derived = scale_to(&derived, options.max_dimension);
+    let (derived, data) = encode_within(derived, options.max_bytes)?;
+
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join(DERIVED_DIR);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+
+    let output = dir.join(format!("{output_name}.jpg"));
+    fs::write(&output, &data).map_err(|e| e.to_string())?;
+
+    Ok(Some(DerivedImage {
+        file_path: output.to_string_lossy().into_owned(),
+        file_type: "image/jpeg".into(),
+        file_size: data.len() as u64,
+        width: derived.width(),
+        height: derived.height(),
+    }))
+}
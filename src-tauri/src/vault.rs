@@ -0,0 +1,349 @@
+//! Encrypted credential vault.
+//!
+//! Account secrets (tokens, app passwords) are sealed with XChaCha20-Poly1305
+//! and stored in `credentials.vault` in the app data directory. The vault key
+//! comes from one of:
+//! - the OS keyring (a random key stored under the app identifier),
+//! - a user passphrase (Argon2id, salt kept in the vault file),
+//! - a random key file (`vault.key`, owner-only) on headless Linux where no
+//!   keyring service is running.
+
+use std::collections::HashMap;
+use std::fs;
+use std::path::PathBuf;
+use std::sync::Mutex;
+
+use argon2::Argon2;
+use base64::engine::general_purpose::STANDARD as BASE64;
+use base64::Engine;
+use chacha20poly1305::aead::rand_core::RngCore;
+use chacha20poly1305::aead::{Aead, AeadCore, KeyInit, OsRng};
+use chacha20poly1305::{Key, XChaCha20Poly1305, XNonce};
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Manager, State};
+
+const VAULT_FILE: &str = "credentials.vault";
+const KEY_FILE: &str = "vault.key";
+const KEYRING_SERVICE: &str = "com.crosslinkaccess.app";
+const KEYRING_USER: &str = "credential-vault";
+// Sealed with the passphrase key so a wrong passphrase is detected on unlock
+const CHECK_VALUE: &[u8] = b"cross-link-access-vault";
+
+type VaultResult<T> = Result<T, String>;
+type VaultKey = [u8; 32];
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum KeySource {
+    Keyring,
+    Passphrase,
+    File,
+}
+
+#[derive(Clone, Serialize, Deserialize)]
+struct SealedEntry {
+    nonce: String,
+    ciphertext: String,
+}
+
+#[derive(Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct VaultFile {
+    key_source: KeySource,
+    #[serde(default)]
+    salt: Option<String>,
+    #[serde(default)]
+    check: Option<SealedEntry>,
+    entries: HashMap<String, SealedEntry>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct VaultStatus {
+    key_source: Option<KeySource>,
+    locked: bool,
+}
+
+/// Holds the unlocked key; the mutex also serializes vault file access.
+#[derive(Default)]
+pub struct VaultState {
+    key: Mutex<Option<VaultKey>>,
+}
+
+fn data_dir(app: &AppHandle) -> VaultResult<PathBuf> {
+    let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+#[cfg(unix)]
+fn restrict_permissions(path: &PathBuf) -> VaultResult<()> {
+    use std::os::unix::fs::PermissionsExt;
+    fs::set_permissions(path, fs::Permissions::from_mode(0o600)).map_err(|e| e.to_string())
+}
+
+#[cfg(not(unix))]
+fn restrict_permissions(_path: &PathBuf) -> VaultResult<()> {
+    Ok(())
+}
+
+fn write_private(path: PathBuf, contents: &[u8]) -> VaultResult<()> {
+    let tmp = path.with_extension("tmp");
+    fs::write(&tmp, contents).map_err(|e| e.to_string())?;
+    restrict_permissions(&tmp)?;
+    fs::rename(&tmp, &path).map_err(|e| e.to_string())
+}
+
+fn read_vault(app: &AppHandle) -> VaultResult<Option<VaultFile>> {
+    let path = data_dir(app)?.join(VAULT_FILE);
+    if !path.exists() {
+        return Ok(None);
+    }
+    let contents = fs::read_to_string(path).map_err(|e| e.to_string())?;
+    serde_json::from_str(&contents).map(Some).map_err(|e| e.to_string())
+}
+
+fn write_vault(app: &AppHandle, vault: &VaultFile) -> VaultResult<()> {
+    let contents = serde_json::to_vec_pretty(vault).map_err(|e| e.to_string())?;
+    write_private(data_dir(app)?.join(VAULT_FILE), &contents)
+}
+
+fn random_bytes<const N: usize>() -> [u8; N] {
+    let mut bytes = [0u8; N];
+    OsRng.fill_bytes(&mut bytes);
+    bytes
+}
+
+fn decode_key(encoded: &str) -> Option<VaultKey> {
+    BASE64.decode(encoded.trim()).ok()?.try_into().ok()
+}
+
+fn seal(key: &VaultKey, plaintext: &[u8]) -> VaultResult<SealedEntry> {
+    let cipher = XChaCha20Poly1305::new(Key::from_slice(key));
+    let nonce = XChaCha20Poly1305::generate_nonce(&mut OsRng);
+    let ciphertext = cipher
+        .encrypt(&nonce, plaintext)
+        .map_err(|_| "Encryption failed".to_string())?;
+    Ok(SealedEntry {
+        nonce: BASE64.encode(nonce),
+        ciphertext: BASE64.encode(ciphertext),
+    })
+}
+
+fn open(key: &VaultKey, entry: &SealedEntry) -> VaultResult<Vec<u8>> {
+    let cipher = XChaCha20Poly1305::new(Key::from_slice(key));
+    let nonce = BASE64.decode(&entry.nonce).map_err(|e| e.to_string())?;
+    if nonce.len() != 24 {
+        return Err("Corrupted vault entry".into());
+    }
+    let ciphertext = BASE64.decode(&entry.ciphertext).map_err(|e| e.to_string())?;
+    cipher
+        .decrypt(XNonce::from_slice(&nonce), ciphertext.as_ref())
+        .map_err(|_| "Decryption failed".to_string())
+}
+
+fn derive_passphrase_key(passphrase: &str, salt: &[u8]) -> VaultResult<VaultKey> {
+    let mut key = [0u8; 32];
+    Argon2::default()
+        .hash_password_into(passphrase.as_bytes(), salt, &mut key)
+        .map_err(|e| e.to_string())?;
+    Ok(key)
+}
+
+fn keyring_entry() -> Option<keyring::Entry> {
+    keyring::Entry::new(KEYRING_SERVICE, KEYRING_USER).ok()
+}
+
+fn load_keyring_key() -> Option<VaultKey> {
+    decode_key(&keyring_entry()?.get_password().ok()?)
+}
+
+/// Store the key in the OS keyring, reading it back to confirm the keyring works.
+fn store_keyring_key(key: &VaultKey) -> bool {
+    let Some(entry) = keyring_entry() else {
+        return false;
+    };
+    entry.set_password(&BASE64.encode(key)).is_ok() && load_keyring_key() == Some(*key)
+}
+
+fn load_key_file(app: &AppHandle) -> VaultResult<VaultKey> {
+    let contents = fs::read_to_string(data_dir(app)?.join(KEY_FILE)).map_err(|e| e.to_string())?;
+    decode_key(&contents).ok_or_else(|| "Invalid vault key file".to_string())
+}
+
+fn write_key_file(app: &AppHandle, key: &VaultKey) -> VaultResult<()> {
+    write_private(data_dir(app)?.join(KEY_FILE), BASE64.encode(key).as_bytes())
+}
+
+/// Return the vault key, creating the vault on first use.
+fn resolve_key(app: &AppHandle, slot: &mut Option<VaultKey>) -> VaultResult<VaultKey> {
+    if let Some(key) = *slot {
+        return Ok(key);
+    }
+
+    let key = match read_vault(app)? {
+        Some(vault) => match vault.key_source {
+            KeySource::Keyring => {
+                load_keyring_key().ok_or_else(|| "OS keyring is unavailable".to_string())?
+            }
+            KeySource::File => load_key_file(app)?,
+            KeySource::Passphrase => return Err("VAULT_LOCKED".into()),
+        },
+        None => {
+            let key: VaultKey = random_bytes();
+            let key_source = if store_keyring_key(&key) {
+                KeySource::Keyring
+            } else {
+                write_key_file(app, &key)?;
+                KeySource::File
+            };
+            write_vault(
+                app,
+                &VaultFile {
+                    key_source,
+                    salt: None,
+                    check: None,
+                    entries: HashMap::new(),
+                },
+            )?;
+            key
+        }
+    };
+
+    *slot = Some(key);
+    Ok(key)
+}
+
+fn lock_state<'a>(
+    state: &'a State<'_, VaultState>,
+) -> VaultResult<std::sync::MutexGuard<'a, Option<VaultKey>>> {
+    state.key.lock().map_err(|_| "Vault state poisoned".to_string())
+}
+
+/// Encrypt and store (or rotate) an account's secret.
+#[tauri::command]
+pub fn vault_store(
+    app: AppHandle,
+    state: State<'_, VaultState>,
+    account_id: String,
+    secret: String,
+) -> VaultResult<()> {
+    let mut slot = lock_state(&state)?;
+    let key = resolve_key(&app, &mut slot)?;
+    let mut vault = read_vault(&app)?.ok_or_else(|| "Vault is not initialized".to_string())?;
+    vault.entries.insert(account_id, seal(&key, secret.as_bytes())?);
+    write_vault(&app, &vault)
+}
+
+/// Decrypt an account's secret, if one is stored.
+#[tauri::command]
+pub fn vault_load(
+    app: AppHandle,
+    state: State<'_, VaultState>,
+    account_id: String,
+) -> VaultResult<Option<String>> {
+    let mut slot = lock_state(&state)?;
+    let key = resolve_key(&app, &mut slot)?;
+    let Some(vault) = read_vault(&app)? else {
+        return Ok(None);
+    };
+    match vault.entries.get(&account_id) {
+        Some(entry) => {
+            let plaintext = open(&key, entry)?;
+            String::from_utf8(plaintext).map(Some).map_err(|e| e.to_string())
+        }
+        None => Ok(None),
+    }
+}
+
+#[tauri::command]
+pub fn vault_delete(app: AppHandle, state: State<'_, VaultState>, account_id: String) -> VaultResult<()> {
+    let _slot = lock_state(&state)?;
+    let Some(mut vault) = read_vault(&app)? else {
+        return Ok(());
+    };
+    if vault.entries.remove(&account_id).is_some() {
+        write_vault(&app, &vault)?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub fn vault_status(app: AppHandle, state: State<'_, VaultState>) -> VaultResult<VaultStatus> {
+    let slot = lock_state(&state)?;
+    let key_source = read_vault(&app)?.map(|vault| vault.key_source);
+    Ok(VaultStatus {
+        key_source,
+        locked: key_source == Some(KeySource::Passphrase) && slot.is_none(),
+    })
+}
+
+/// Unlock a passphrase-protected vault for this session.
+#[tauri::command]
+pub fn vault_unlock(app: AppHandle, state: State<'_, VaultState>, passphrase: String) -> VaultResult<()> {
+    let mut slot = lock_state(&state)?;
+    let vault = read_vault(&app)?.ok_or_else(|| "Vault is not initialized".to_string())?;
+    if vault.key_source != KeySource::Passphrase {
+        return Err("Vault is not passphrase protected".into());
+    }
+
+    let salt = BASE64
+        .decode(vault.salt.as_deref().unwrap_or_default())
+        .map_err(|e| e.to_string())?;
+    let key = derive_passphrase_key(&passphrase, &salt)?;
+    let check = vault.check.as_ref().ok_or_else(|| "Vault check value missing".to_string())?;
+    if open(&key, check).ok().as_deref() != Some(CHECK_VALUE) {
+        return Err("Incorrect passphrase".into());
+    }
+
+    *slot = Some(key);
+    Ok(())
+}
+
+/// Re-encrypt every entry with a key derived from a new passphrase.
+#[tauri::command]
+pub fn vault_set_passphrase(
+    app: AppHandle,
+    state: State<'_, VaultState>,
+    passphrase: String,
+) -> VaultResult<()> {
+    if passphrase.len() < 8 {
+        return Err("Passphrase must be at least 8 characters".into());
+    }
+
+    let mut slot = lock_state(&state)?;
+    let old_key = resolve_key(&app, &mut slot)?;
+    let mut vault = read_vault(&app)?.ok_or_else(|| "Vault is not initialized".to_string())?;
+    let previous_source = vault.key_source;
+
+    let salt: [u8; 16] = random_bytes();
+    let new_key = derive_passphrase_key(&passphrase, &salt)?;
+
+    let mut entries = HashMap::new();
+    for (account_id, entry) in &vault.entries {
+        let plaintext = open(&old_key, entry)?;
+        entries.insert(account_id.clone(), seal(&new_key, &plaintext)?);
+    }
+
+    vault.entries = entries;
+    vault.key_source = KeySource::Passphrase;
+    vault.salt = Some(BASE64.encode(salt));
+    vault.check = Some(seal(&new_key, CHECK_VALUE)?);
+    write_vault(&app, &vault)?;
+    *slot = Some(new_key);
+
+    // The old key no longer protects anything
+    match previous_source {
+        KeySource::Keyring => {
+            if let Some(entry) = keyring_entry() {
+                let _ = entry.delete_credential();
+            }
+        }
+        KeySource::File => {
+            let _ = fs::remove_file(data_dir(&app)?.join(KEY_FILE));
+        }
+        KeySource::Passphrase => {}
+    }
+
+    Ok(())
+}
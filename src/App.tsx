@@ -8,8 +8,10 @@ import { Settings } from './components/Settings';
 import { PostHistory } from './components/PostHistory';
 import { TemplateManager } from './components/TemplateManager';
 import { HelpCenter } from './components/HelpCenter';
-import { useAppStore } from './stores';
+import { useAppStore, hydrateStores } from './stores';
 import { schedulerService } from './services/scheduler';
+import { sessionManager } from './services/sessionManager';
+import { tokenLifecycleService } from './services/tokenLifecycle';
 import { useKeyboardShortcuts } from './hooks';
 import './index.css';
 
@@ -29,10 +31,20 @@ function App() {
     }
   }, [theme]);
 
-  // Start scheduler on mount
+  // Load stored data and restore account sessions, then start the scheduler
+  // so it sees persisted jobs with authenticated accounts
   useEffect(() => {
-    schedulerService.start();
+    let cancelled = false;
+    hydrateStores()
+      .then(() => sessionManager.restoreAll())
+      .then(() => {
+        if (cancelled) return;
+        tokenLifecycleService.start();
+        schedulerService.start();
+      });
     return () => {
+      cancelled = true;
+      tokenLifecycleService.stop();
       schedulerService.stop();
     };
   }, []);
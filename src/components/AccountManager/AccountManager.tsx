@@ -4,8 +4,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { useAccountStore, useAppStore } from '../../stores';
-import { PLATFORM_CONFIGS, PlatformType, Account } from '../../types';
-import { blueskyService } from '../../services';
+import { PLATFORM_CONFIGS, PlatformType, Account, AccountCredentials, AccountSessionStatus } from '../../types';
+import { accountClients, BlueskyService, credentialVault, oauthService } from '../../services';
+import type { OAuthPlatform } from '../../services';
 import { cn } from '../../lib/utils';
 
 // Platform icon component
@@ -48,10 +49,11 @@ const PlatformTab: React.FC<{
 
 // Bluesky login form
 const BlueskyLoginForm: React.FC<{
-    onSuccess: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => void;
+    onSuccess: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>, credentials: AccountCredentials) => void;
 }> = ({ onSuccess }) => {
     const [handle, setHandle] = useState('');
     const [appPassword, setAppPassword] = useState('');
+    const [serviceUrl, setServiceUrl] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const { language } = useAppStore();
@@ -60,6 +62,7 @@ const BlueskyLoginForm: React.FC<{
         ja: {
             handle: 'ハンドル（例: user.bsky.social）',
             appPassword: 'アプリパスワード',
+            serviceUrl: 'サービスURL（任意・独自PDSの場合。空欄ならハンドルから自動検出）',
             connect: '接続',
             connecting: '接続中...',
             howToGetPassword: 'アプリパスワードの取得方法',
@@ -68,6 +71,7 @@ const BlueskyLoginForm: React.FC<{
         en: {
             handle: 'Handle (e.g., user.bsky.social)',
             appPassword: 'App Password',
+            serviceUrl: 'Service URL (optional, for self-hosted PDS; detected from the handle when empty)',
             connect: 'Connect',
             connecting: 'Connecting...',
             howToGetPassword: 'How to get App Password',
@@ -82,7 +86,8 @@ const BlueskyLoginForm: React.FC<{
         setIsLoading(true);
         setError(null);
 
-        const result = await blueskyService.authenticate(handle, appPassword);
+        // A throwaway client, so the login never replaces another account's session
+        const result = await new BlueskyService().login(handle, appPassword, serviceUrl);
 
         if (result.success) {
             onSuccess({
@@ -93,9 +98,17 @@ const BlueskyLoginForm: React.FC<{
                 isActive: true,
                 tokenExpiresAt: undefined,
                 lastSyncAt: new Date(),
+            }, {
+                handle: result.username || handle,
+                appPassword,
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+                userId: result.userId,
+                serviceUrl: result.serviceUrl,
             });
             setHandle('');
             setAppPassword('');
+            setServiceUrl('');
         } else {
             setError(result.error || 'Authentication failed');
         }
@@ -125,6 +138,15 @@ const BlueskyLoginForm: React.FC<{
                     required
                 />
             </div>
+            <div>
+                <Input
+                    type="text"
+                    placeholder={labels.serviceUrl}
+                    value={serviceUrl}
+                    onChange={(e) => setServiceUrl(e.target.value)}
+                    disabled={isLoading}
+                />
+            </div>
             {error && (
                 <div className="flex items-center gap-2 text-red-500 text-sm">
                     <AlertCircle size={16} />
@@ -149,22 +171,328 @@ const BlueskyLoginForm: React.FC<{
     );
 };
 
+// Developer console setup shown above each OAuth connect form
+const OAUTH_SETUP: Record<OAuthPlatform, {
+    title: { ja: string; en: string };
+    steps: { ja: string; en: string }[];
+    consoleUrl: string;
+    consoleName: string;
+    boxClass: string;
+    textClass: string;
+    clientIdLabel: string;
+    clientSecretLabel: string;
+    secretOptional?: boolean;
+}> = {
+    x: {
+        title: { ja: 'X Developer 設定が必要です', en: 'X Developer Setup Required' },
+        steps: [
+            { ja: 'X Developer Portal でプロジェクトとアプリを作成', en: 'Create a project and app in the X Developer Portal' },
+            { ja: 'OAuth 2.0 を有効化し、リダイレクトURIを登録', en: 'Enable OAuth 2.0 and register the redirect URI' },
+            { ja: 'Client ID（機密クライアントの場合は Client Secret も）をコピー', en: 'Copy the Client ID (and Client Secret for confidential clients)' },
+        ],
+        consoleUrl: 'https://developer.x.com/en/portal/dashboard',
+        consoleName: 'X Developer Portal',
+        boxClass: 'bg-gray-100 dark:bg-gray-800',
+        textClass: 'text-gray-600 dark:text-gray-400',
+        clientIdLabel: 'Client ID',
+        clientSecretLabel: 'Client Secret',
+        secretOptional: true,
+    },
+    youtube: {
+        title: { ja: 'YouTube Data API v3 設定が必要です', en: 'YouTube Data API v3 Setup Required' },
+        steps: [
+            { ja: 'Google Cloud Console でプロジェクトを作成', en: 'Create a project in Google Cloud Console' },
+            { ja: 'YouTube Data API v3 を有効化', en: 'Enable YouTube Data API v3' },
+            { ja: 'OAuth 2.0 クライアント ID（デスクトップアプリ）を作成', en: 'Create an OAuth 2.0 Client ID (Desktop app)' },
+        ],
+        consoleUrl: 'https://console.cloud.google.com/apis/library/youtube.googleapis.com',
+        consoleName: 'Google Cloud Console',
+        boxClass: 'bg-red-50 dark:bg-red-900/20',
+        textClass: 'text-red-600 dark:text-red-400',
+        clientIdLabel: 'Client ID',
+        clientSecretLabel: 'Client Secret',
+    },
+    instagram: {
+        title: { ja: 'Meta 開発者設定が必要です', en: 'Meta Developer Setup Required' },
+        steps: [
+            { ja: 'Meta for Developers でアプリを作成', en: 'Create an app in Meta for Developers' },
+            { ja: 'Instagram Graph API を追加', en: 'Add Instagram Graph API' },
+            { ja: 'ビジネスアカウントと Facebook ページを連携', en: 'Link Business account and Facebook Page' },
+        ],
+        consoleUrl: 'https://developers.facebook.com/',
+        consoleName: 'Meta for Developers',
+        boxClass: 'bg-purple-50 dark:bg-purple-900/20',
+        textClass: 'text-purple-600 dark:text-purple-400',
+        clientIdLabel: 'App ID',
+        clientSecretLabel: 'App Secret',
+    },
+    threads: {
+        title: { ja: 'Meta 開発者設定が必要です', en: 'Meta Developer Setup Required' },
+        steps: [
+            { ja: 'Meta for Developers でアプリを作成', en: 'Create an app in Meta for Developers' },
+            { ja: 'Threads API のユースケースを追加', en: 'Add the Threads API use case' },
+            { ja: 'リダイレクトURIとテスターを登録', en: 'Register the redirect URI and testers' },
+        ],
+        consoleUrl: 'https://developers.facebook.com/',
+        consoleName: 'Meta for Developers',
+        boxClass: 'bg-gray-100 dark:bg-gray-800',
+        textClass: 'text-gray-600 dark:text-gray-400',
+        clientIdLabel: 'Threads App ID',
+        clientSecretLabel: 'Threads App Secret',
+    },
+    tiktok: {
+        title: { ja: 'TikTok Developer 設定が必要です', en: 'TikTok Developer Setup Required' },
+        steps: [
+            { ja: 'TikTok for Developers で登録', en: 'Register at TikTok for Developers' },
+            { ja: 'Content Posting API を申請', en: 'Apply for Content Posting API' },
+            { ja: 'アプリ審査を通過（審査中は非公開投稿のみ）', en: 'Pass app review (private posts only during review)' },
+        ],
+        consoleUrl: 'https://developers.tiktok.com/',
+        consoleName: 'TikTok for Developers',
+        boxClass: 'bg-gray-100 dark:bg-gray-800',
+        textClass: 'text-gray-600 dark:text-gray-400',
+        clientIdLabel: 'Client Key',
+        clientSecretLabel: 'Client Secret',
+    },
+};
+
+// OAuth connect form for platforms that authorize in the browser
+const OAuthConnectForm: React.FC<{
+    platform: OAuthPlatform;
+    onSuccess: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>, credentials: AccountCredentials) => void;
+}> = ({ platform, onSuccess }) => {
+    const [clientId, setClientId] = useState('');
+    const [clientSecret, setClientSecret] = useState('');
+    const [port, setPort] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { language } = useAppStore();
+    const setup = OAUTH_SETUP[platform];
+
+    const t = {
+        ja: {
+            optional: '（任意）',
+            port: 'コールバックポート（任意・固定する場合）',
+            connect: 'ブラウザで認証',
+            connecting: 'ブラウザで認証を待っています...',
+            open: 'を開く',
+            errorPrefix: 'エラー: ',
+        },
+        en: {
+            optional: ' (optional)',
+            port: 'Callback port (optional, to pin it)',
+            connect: 'Authorize in browser',
+            connecting: 'Waiting for browser authorization...',
+            open: 'Open ',
+            errorPrefix: 'Error: ',
+        },
+    };
+
+    const labels = t[language];
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError(null);
+
+        const result = await oauthService.connect(platform, {
+            clientId: clientId.trim(),
+            clientSecret: clientSecret.trim() || undefined,
+            port: port ? Number(port) : undefined,
+        });
+
+        if (result.success && result.credentials) {
+            onSuccess({
+                platform,
+                platformUserId: result.userId,
+                username: result.username || result.userId || PLATFORM_CONFIGS[platform].name,
+                displayName: result.displayName,
+                avatarUrl: result.avatarUrl,
+                isActive: true,
+                tokenExpiresAt: result.expiresAt,
+                lastSyncAt: new Date(),
+            }, result.credentials);
+            setClientId('');
+            setClientSecret('');
+        } else {
+            setError(result.error || 'Authorization failed');
+        }
+
+        setIsLoading(false);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className={cn('p-4 rounded-lg', setup.boxClass)}>
+                <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {setup.title[language]}
+                </h4>
+                <ol className={cn('text-sm space-y-1 list-decimal ml-4', setup.textClass)}>
+                    {setup.steps.map((step) => (
+                        <li key={step.en}>{step[language]}</li>
+                    ))}
+                </ol>
+                <a
+                    href={setup.consoleUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={cn('inline-flex items-center gap-2 text-sm hover:underline mt-2', setup.textClass)}
+                >
+                    {language === 'ja' ? `${setup.consoleName} ${labels.open}` : `${labels.open}${setup.consoleName}`}
+                    <ExternalLink size={12} />
+                </a>
+            </div>
+            <Input
+                type="text"
+                placeholder={setup.clientIdLabel}
+                value={clientId}
+                onChange={(e) => setClientId(e.target.value)}
+                disabled={isLoading}
+                required
+            />
+            <Input
+                type="password"
+                placeholder={setup.clientSecretLabel + (setup.secretOptional ? labels.optional : '')}
+                value={clientSecret}
+                onChange={(e) => setClientSecret(e.target.value)}
+                disabled={isLoading}
+                required={!setup.secretOptional}
+            />
+            <Input
+                type="number"
+                placeholder={labels.port}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                disabled={isLoading}
+                min={1024}
+                max={65535}
+            />
+            {error && (
+                <div className="flex items-center gap-2 text-red-500 text-sm">
+                    <AlertCircle size={16} />
+                    <span>{labels.errorPrefix}{error}</span>
+                </div>
+            )}
+            <Button type="submit" variant={platform} disabled={isLoading}>
+                {isLoading ? labels.connecting : labels.connect}
+            </Button>
+        </form>
+    );
+};
+
+// Mastodon connect form: the app is registered on the user's own instance
+const MastodonLoginForm: React.FC<{
+    onSuccess: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>, credentials: AccountCredentials) => void;
+}> = ({ onSuccess }) => {
+    const [instanceUrl, setInstanceUrl] = useState('');
+    const [port, setPort] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { language } = useAppStore();
+
+    const t = {
+        ja: {
+            instance: 'サーバー（例: mastodon.social）',
+            hint: '開発者アプリの登録は不要です。接続時にこのアプリをサーバーへ自動登録します。',
+            port: 'コールバックポート（任意・固定する場合）',
+            connect: 'ブラウザで認証',
+            connecting: 'ブラウザで認証を待っています...',
+            errorPrefix: 'エラー: ',
+        },
+        en: {
+            instance: 'Server (e.g., mastodon.social)',
+            hint: 'No developer app needed. This app registers itself on your server when you connect.',
+            port: 'Callback port (optional, to pin it)',
+            connect: 'Authorize in browser',
+            connecting: 'Waiting for browser authorization...',
+            errorPrefix: 'Error: ',
+        },
+    };
+
+    const labels = t[language];
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError(null);
+
+        const result = await oauthService.connectMastodon(instanceUrl, port ? Number(port) : undefined);
+
+        if (result.success && result.credentials) {
+            onSuccess({
+                platform: 'mastodon',
+                platformUserId: result.userId,
+                username: result.username || result.userId || instanceUrl,
+                displayName: result.displayName,
+                avatarUrl: result.avatarUrl,
+                isActive: true,
+                tokenExpiresAt: undefined,
+                lastSyncAt: new Date(),
+            }, result.credentials);
+            setInstanceUrl('');
+        } else {
+            setError(result.error || 'Authorization failed');
+        }
+
+        setIsLoading(false);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{labels.hint}</p>
+            <Input
+                type="text"
+                placeholder={labels.instance}
+                value={instanceUrl}
+                onChange={(e) => setInstanceUrl(e.target.value)}
+                disabled={isLoading}
+                required
+            />
+            <Input
+                type="number"
+                placeholder={labels.port}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                disabled={isLoading}
+                min={1024}
+                max={65535}
+            />
+            {error && (
+                <div className="flex items-center gap-2 text-red-500 text-sm">
+                    <AlertCircle size={16} />
+                    <span>{labels.errorPrefix}{error}</span>
+                </div>
+            )}
+            <Button type="submit" variant="mastodon" disabled={isLoading}>
+                {isLoading ? labels.connecting : labels.connect}
+            </Button>
+        </form>
+    );
+};
+
 // Account card component
 const AccountCard: React.FC<{
     account: Account;
+    sessionStatus?: AccountSessionStatus;
     onRemove: () => void;
-}> = ({ account, onRemove }) => {
+}> = ({ account, sessionStatus, onRemove }) => {
     const config = PLATFORM_CONFIGS[account.platform];
     const { language } = useAppStore();
 
     const t = {
         ja: {
             connected: '接続済み',
+            restoring: 'セッションを復元中...',
+            needsReauth: '再ログインが必要です',
+            revoked: '連携が取り消されました',
             remove: '削除',
             lastSync: '最終同期',
         },
         en: {
             connected: 'Connected',
+            restoring: 'Restoring session...',
+            needsReauth: 'Re-login required',
+            revoked: 'Access revoked',
             remove: 'Remove',
             lastSync: 'Last sync',
         },
@@ -172,6 +500,39 @@ const AccountCard: React.FC<{
 
     const labels = t[language];
 
+    const renderStatus = () => {
+        switch (sessionStatus) {
+            case 'restoring':
+                return (
+                    <>
+                        <RefreshCw size={12} className="text-gray-400 animate-spin" />
+                        <span className="text-xs text-gray-400">{labels.restoring}</span>
+                    </>
+                );
+            case 'revoked':
+                return (
+                    <>
+                        <AlertCircle size={12} className="text-red-500" />
+                        <span className="text-xs text-red-500">{labels.revoked}</span>
+                    </>
+                );
+            case 'needs_reauth':
+                return (
+                    <>
+                        <AlertCircle size={12} className="text-yellow-500" />
+                        <span className="text-xs text-yellow-600">{labels.needsReauth}</span>
+                    </>
+                );
+            default:
+                return (
+                    <>
+                        <Check size={12} className="text-green-500" />
+                        <span className="text-xs text-green-500">{labels.connected}</span>
+                    </>
+                );
+        }
+    };
+
     return (
         <Card className="hover:shadow-lg transition-shadow">
             <CardContent className="p-4">
@@ -185,8 +546,7 @@ const AccountCard: React.FC<{
                             @{account.username}
                         </p>
                         <div className="flex items-center gap-1 mt-1">
-                            <Check size={12} className="text-green-500" />
-                            <span className="text-xs text-green-500">{labels.connected}</span>
+                            {renderStatus()}
                         </div>
                     </div>
                     <Button
@@ -207,10 +567,10 @@ const AccountCard: React.FC<{
 export const AccountManager: React.FC = () => {
     const [activePlatform, setActivePlatform] = useState<PlatformType>('bluesky');
     const [showAddForm, setShowAddForm] = useState(false);
-    const { accounts, addAccount, removeAccount } = useAccountStore();
+    const { accounts, sessionStatuses, addAccount, removeAccount, setSessionStatus } = useAccountStore();
     const { language } = useAppStore();
 
-    const platforms: PlatformType[] = ['bluesky', 'youtube', 'instagram', 'threads', 'tiktok'];
+    const platforms: PlatformType[] = ['bluesky', 'x', 'youtube', 'instagram', 'threads', 'tiktok', 'mastodon'];
 
     const t = {
         ja: {
@@ -220,7 +580,7 @@ export const AccountManager: React.FC = () => {
             cancel: 'キャンセル',
             noAccounts: 'まだアカウントが接続されていません',
             connectFirst: '上の「アカウントを追加」ボタンから始めましょう',
-            comingSoon: '近日対応予定',
+            revokedWarning: '次のアカウントは連携が取り消されたため投稿できません。削除して再接続してください: ',
         },
         en: {
             title: 'Account Manager',
@@ -229,15 +589,19 @@ export const AccountManager: React.FC = () => {
             cancel: 'Cancel',
             noAccounts: 'No accounts connected yet',
             connectFirst: 'Start by clicking "Add Account" above',
-            comingSoon: 'Coming soon',
+            revokedWarning: 'Access was revoked for these accounts and they cannot post. Remove and reconnect them: ',
         },
     };
 
     const labels = t[language];
 
     const platformAccounts = accounts.filter((a) => a.platform === activePlatform);
+    const revokedAccounts = accounts.filter((a) => sessionStatuses[a.id] === 'revoked');
 
-    const handleAddAccount = (accountData: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const handleAddAccount = async (
+        accountData: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>,
+        credentials: AccountCredentials
+    ) => {
         const newAccount: Account = {
             ...accountData,
             id: crypto.randomUUID(),
@@ -245,92 +609,32 @@ export const AccountManager: React.FC = () => {
             updatedAt: new Date(),
         };
         addAccount(newAccount);
+        setSessionStatus(newAccount.id, 'active');
         setShowAddForm(false);
+
+        try {
+            await credentialVault.store(newAccount.id, credentials);
+        } catch (error) {
+            console.error('[AccountManager] Failed to store credentials:', error);
+        }
+    };
+
+    const handleRemoveAccount = (id: string) => {
+        removeAccount(id);
+        accountClients.release(id);
+        credentialVault.remove(id).catch((error) => {
+            console.error('[AccountManager] Failed to remove credentials:', error);
+        });
     };
 
     const renderAddForm = () => {
         switch (activePlatform) {
             case 'bluesky':
                 return <BlueskyLoginForm onSuccess={handleAddAccount} />;
-            case 'youtube':
-                return (
-                    <div className="space-y-4">
-                        <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
-                            <h4 className="font-medium text-red-700 dark:text-red-300 mb-2">
-                                {language === 'ja' ? 'YouTube Data API v3 設定が必要です' : 'YouTube Data API v3 Setup Required'}
-                            </h4>
-                            <ol className="text-sm text-red-600 dark:text-red-400 space-y-1 list-decimal ml-4">
-                                <li>{language === 'ja' ? 'Google Cloud Console でプロジェクトを作成' : 'Create a project in Google Cloud Console'}</li>
-                                <li>{language === 'ja' ? 'YouTube Data API v3 を有効化' : 'Enable YouTube Data API v3'}</li>
-                                <li>{language === 'ja' ? 'OAuth 2.0 クライアント ID を作成' : 'Create OAuth 2.0 Client ID'}</li>
-                            </ol>
-                        </div>
-                        <a
-                            href="https://console.cloud.google.com/apis/library/youtube.googleapis.com"
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center gap-2 text-sm text-red-500 hover:underline"
-                        >
-                            Google Cloud Console を開く
-                            <ExternalLink size={12} />
-                        </a>
-                    </div>
-                );
-            case 'instagram':
-            case 'threads':
-                return (
-                    <div className="space-y-4">
-                        <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                            <h4 className="font-medium text-purple-700 dark:text-purple-300 mb-2">
-                                {language === 'ja' ? 'Meta 開発者設定が必要です' : 'Meta Developer Setup Required'}
-                            </h4>
-                            <ol className="text-sm text-purple-600 dark:text-purple-400 space-y-1 list-decimal ml-4">
-                                <li>{language === 'ja' ? 'Meta for Developers でアプリを作成' : 'Create an app in Meta for Developers'}</li>
-                                <li>{language === 'ja' ? 'Instagram Graph API を追加' : 'Add Instagram Graph API'}</li>
-                                <li>{language === 'ja' ? 'ビジネスアカウントと Facebook ページを連携' : 'Link Business account and Facebook Page'}</li>
-                            </ol>
-                        </div>
-                        <a
-                            href="https://developers.facebook.com/"
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center gap-2 text-sm text-purple-500 hover:underline"
-                        >
-                            Meta for Developers を開く
-                            <ExternalLink size={12} />
-                        </a>
-                    </div>
-                );
-            case 'tiktok':
-                return (
-                    <div className="space-y-4">
-                        <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-lg">
-                            <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-2">
-                                {language === 'ja' ? 'TikTok Developer 設定が必要です' : 'TikTok Developer Setup Required'}
-                            </h4>
-                            <ol className="text-sm text-gray-600 dark:text-gray-400 space-y-1 list-decimal ml-4">
-                                <li>{language === 'ja' ? 'TikTok for Developers で登録' : 'Register at TikTok for Developers'}</li>
-                                <li>{language === 'ja' ? 'Content Posting API を申請' : 'Apply for Content Posting API'}</li>
-                                <li>{language === 'ja' ? 'アプリ審査を通過（審査中は非公開投稿のみ）' : 'Pass app review (private posts only during review)'}</li>
-                            </ol>
-                        </div>
-                        <a
-                            href="https://developers.tiktok.com/"
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center gap-2 text-sm text-gray-500 hover:underline"
-                        >
-                            TikTok for Developers を開く
-                            <ExternalLink size={12} />
-                        </a>
-                    </div>
-                );
+            case 'mastodon':
+                return <MastodonLoginForm onSuccess={handleAddAccount} />;
             default:
-                return (
-                    <div className="text-center py-8 text-gray-500">
-                        <p>{PLATFORM_CONFIGS[activePlatform].name} {labels.comingSoon}</p>
-                    </div>
-                );
+                return <OAuthConnectForm key={activePlatform} platform={activePlatform} onSuccess={handleAddAccount} />;
         }
     };
 
@@ -354,6 +658,17 @@ export const AccountManager: React.FC = () => {
                 </Button>
             </div>
 
+            {/* Revoked token warning */}
+            {revokedAccounts.length > 0 && (
+                <div className="flex items-start gap-2 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                    <AlertCircle size={18} className="shrink-0 mt-0.5" />
+                    <p>
+                        {labels.revokedWarning}
+                        {revokedAccounts.map((a) => `${PLATFORM_CONFIGS[a.platform].name} @${a.username}`).join(', ')}
+                    </p>
+                </div>
+            )}
+
             {/* Platform Tabs */}
             <div className="flex gap-2 overflow-x-auto pb-2">
                 {platforms.map((platform) => (
@@ -393,7 +708,8 @@ export const AccountManager: React.FC = () => {
                     <AccountCard
                         key={account.id}
                         account={account}
-                        onRemove={() => removeAccount(account.id)}
+                        sessionStatus={sessionStatuses[account.id]}
+                        onRemove={() => handleRemoveAccount(account.id)}
                     />
                 ))}
             </div>
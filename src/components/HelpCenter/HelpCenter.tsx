@@ -75,6 +75,7 @@ export const HelpCenter: React.FC = () => {
                 threads: 'Threads: Instagram 経由で連携',
                 tiktok: 'TikTok: Developer Portal で API 設定',
                 x: 'X (Twitter): Developer Portal で OAuth 設定',
+                mastodon: 'Mastodon: サーバーを入力してブラウザで認証',
             },
             faqContent: {
                 q1: 'Q: 投稿が失敗する場合は？',
@@ -108,6 +109,7 @@ export const HelpCenter: React.FC = () => {
                 threads: 'Threads: Connect via Instagram',
                 tiktok: 'TikTok: Configure API in Developer Portal',
                 x: 'X (Twitter): Configure OAuth in Developer Portal',
+                mastodon: 'Mastodon: Enter your server and authorize in the browser',
             },
             faqContent: {
                 q1: 'Q: What if posting fails?',
@@ -198,6 +200,7 @@ export const HelpCenter: React.FC = () => {
                         <li>• {labels.platformsContent.threads}</li>
                         <li>• {labels.platformsContent.tiktok}</li>
                         <li>• {labels.platformsContent.x}</li>
+                        <li>• {labels.platformsContent.mastodon}</li>
                     </ul>
                 </HelpSection>
 
@@ -1,13 +1,25 @@
-import React, { useState, useCallback } from 'react';
-import { Send, Image, X, Calendar, Check, AlertTriangle, Loader2, Eye } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Send, Image, X, Calendar, Check, AlertTriangle, Loader2, Eye, RotateCcw, ListOrdered, ClipboardCheck, XCircle, ChevronLeft, ChevronRight, Film, Upload } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Textarea } from '../ui/Textarea';
+import { Input } from '../ui/Input';
 import { useAccountStore, usePostStore, useAppStore } from '../../stores';
-import { PLATFORM_CONFIGS, PlatformType, Account } from '../../types';
-import { blueskyService } from '../../services';
+import { PLATFORM_CONFIGS, PlatformType, Account, CrossPostTarget, MediaFile, Post, PostStatus, PublishProgress } from '../../types';
+import { buildPostContent, mediaService, postDispatcher, preflightValidator, schedulerService } from '../../services';
+import type {
+    BlueskyPostOptions,
+    MastodonStatusOptions,
+    MastodonVisibility,
+    PreflightReport,
+    TikTokVideoMetadata,
+    YouTubeVideoMetadata,
+} from '../../services';
 import { PostPreview } from '../PostPreview';
 import { cn } from '../../lib/utils';
+import { hasVariantOverrides, resolveVariant } from '../../lib/variants';
+import { getThreadParts, supportsThreads } from '../../lib/thread';
+import { getTextLength } from '../../lib/textLength';
 
 // Platform checkbox component
 const PlatformCheckbox: React.FC<{
@@ -59,9 +71,12 @@ const CharacterCounter: React.FC<{
     current: number;
     max: number;
     platform: string;
-}> = ({ current, max, platform }) => {
+    parts?: number;
+    partsLabel?: string;
+}> = ({ current, max, platform, parts = 1, partsLabel }) => {
     const percentage = (current / max) * 100;
-    const isOverLimit = current > max;
+    const isThreaded = parts > 1;
+    const isOverLimit = current > max && !isThreaded;
     const isNearLimit = current > max * 0.8;
 
     return (
@@ -73,18 +88,467 @@ const CharacterCounter: React.FC<{
             )}>
                 {current}/{max}
             </span>
+            {isThreaded && (
+                <span className="flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400">
+                    <ListOrdered size={12} />
+                    {parts} {partsLabel}
+                </span>
+            )}
             {isOverLimit && <AlertTriangle size={14} className="text-red-500" />}
         </div>
     );
 };
 
+// Variant tab component
+const VariantTab: React.FC<{
+    label: string;
+    color?: string;
+    isActive: boolean;
+    isCustomized?: boolean;
+    customizedLabel?: string;
+    onClick: () => void;
+}> = ({ label, color, isActive, isCustomized, customizedLabel, onClick }) => (
+    <button
+        onClick={onClick}
+        title={isCustomized ? customizedLabel : undefined}
+        className={cn(
+            'flex items-center gap-2 px-3 py-1.5 text-sm rounded-full transition-colors',
+            isActive
+                ? 'bg-primary-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+        )}
+    >
+        {color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />}
+        {label}
+        {isCustomized && <span className="w-1.5 h-1.5 rounded-full bg-yellow-400" />}
+    </button>
+);
+
+// Attached media tile with reorder and remove controls
+const MediaTile: React.FC<{
+    file: MediaFile;
+    isFirst: boolean;
+    isLast: boolean;
+    disabled?: boolean;
+    isEditingAlt: boolean;
+    altLabel: string;
+    onMove: (direction: -1 | 1) => void;
+    onRemove: () => void;
+    onEditAlt: () => void;
+}> = ({ file, isFirst, isLast, disabled, isEditingAlt, altLabel, onMove, onRemove, onEditAlt }) => {
+    const previewUrl = mediaService.getPreviewUrl(file);
+    const isVideo = file.fileType.startsWith('video/');
+
+    return (
+        <div className="relative w-24 group">
+            <div className="w-24 h-24 rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
+                {previewUrl ? (
+                    <img src={previewUrl} alt={file.altText ?? file.fileName} className="w-full h-full object-cover" />
+                ) : isVideo ? (
+                    <Film size={28} className="text-gray-400" />
+                ) : (
+                    <Image size={28} className="text-gray-400" />
+                )}
+                {isVideo && file.duration !== undefined && (
+                    <span className="absolute bottom-6 right-1 px-1 text-[10px] rounded bg-black/60 text-white">
+                        {Math.floor(file.duration / 60)}:{String(file.duration % 60).padStart(2, '0')}
+                    </span>
+                )}
+                {!isVideo && (
+                    <button
+                        onClick={onEditAlt}
+                        disabled={disabled}
+                        title={altLabel}
+                        className={cn(
+                            'absolute bottom-6 left-1 px-1 text-[10px] font-semibold rounded',
+                            file.altText
+                                ? 'bg-primary-500 text-white'
+                                : 'bg-black/60 text-white',
+                            isEditingAlt && 'ring-2 ring-primary-300'
+                        )}
+                    >
+                        ALT{file.altText && <Check size={10} className="inline ml-0.5" />}
+                    </button>
+                )}
+            </div>
+            <p className="mt-1 text-[10px] text-gray-500 truncate" title={file.fileName}>{file.fileName}</p>
+            <button
+                onClick={onRemove}
+                disabled={disabled}
+                className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100"
+            >
+                <X size={12} />
+            </button>
+            <div className="absolute top-1 left-1 flex gap-0.5 opacity-0 group-hover:opacity-100">
+                {!isFirst && (
+                    <button onClick={() => onMove(-1)} disabled={disabled} className="p-0.5 rounded-full bg-black/60 text-white">
+                        <ChevronLeft size={12} />
+                    </button>
+                )}
+                {!isLast && (
+                    <button onClick={() => onMove(1)} disabled={disabled} className="p-0.5 rounded-full bg-black/60 text-white">
+                        <ChevronRight size={12} />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TIKTOK_PRIVACY_LEVELS: { id: TikTokVideoMetadata['privacyLevel']; label: { ja: string; en: string } }[] = [
+    { id: 'SELF_ONLY', label: { ja: '自分のみ', en: 'Only me' } },
+    { id: 'MUTUAL_FOLLOW_FRIENDS', label: { ja: '相互フォロー', en: 'Friends' } },
+    { id: 'PUBLIC_TO_EVERYONE', label: { ja: '全員', en: 'Everyone' } },
+];
+
+// TikTok publish options, stored in the TikTok variant
+const TikTokOptions: React.FC<{
+    options: Partial<TikTokVideoMetadata>;
+    onChange: (updates: Partial<TikTokVideoMetadata>) => void;
+    disabled?: boolean;
+    language: 'ja' | 'en';
+}> = ({ options, onChange, disabled, language }) => {
+    const labels = {
+        ja: {
+            privacy: '公開範囲',
+            disableComment: 'コメントを無効化',
+            disableDuet: 'デュエットを無効化',
+            disableStitch: 'リミックスを無効化',
+            cover: 'カバー画像の位置（秒）',
+        },
+        en: {
+            privacy: 'Who can view',
+            disableComment: 'Disable comments',
+            disableDuet: 'Disable Duet',
+            disableStitch: 'Disable Stitch',
+            cover: 'Cover frame (seconds)',
+        },
+    }[language];
+
+    const toggles: { key: 'disableComment' | 'disableDuet' | 'disableStitch'; label: string }[] = [
+        { key: 'disableComment', label: labels.disableComment },
+        { key: 'disableDuet', label: labels.disableDuet },
+        { key: 'disableStitch', label: labels.disableStitch },
+    ];
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-sm text-gray-500 mb-2">{labels.privacy}</p>
+                <div className="flex flex-wrap gap-2">
+                    {TIKTOK_PRIVACY_LEVELS.map((level) => (
+                        <button
+                            key={level.id}
+                            onClick={() => onChange({ privacyLevel: level.id })}
+                            disabled={disabled}
+                            className={cn(
+                                'flex items-center gap-1 px-2 py-1 text-xs rounded border',
+                                (options.privacyLevel ?? 'SELF_ONLY') === level.id
+                                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                                    : 'border-gray-200 dark:border-gray-700'
+                            )}
+                        >
+                            {(options.privacyLevel ?? 'SELF_ONLY') === level.id && <Check size={12} />}
+                            {level.label[language]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+                {toggles.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options[key] ?? false}
+                            onChange={(e) => onChange({ [key]: e.target.checked })}
+                            disabled={disabled}
+                            className="rounded"
+                        />
+                        {label}
+                    </label>
+                ))}
+            </div>
+            <Input
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder={labels.cover}
+                aria-label={labels.cover}
+                value={options.videoCoverTimestampMs !== undefined ? options.videoCoverTimestampMs / 1000 : ''}
+                onChange={(e) => onChange({
+                    videoCoverTimestampMs: e.target.value ? Math.round(Number(e.target.value) * 1000) : undefined,
+                })}
+                disabled={disabled}
+            />
+        </div>
+    );
+};
+
+const YOUTUBE_PRIVACY_STATUSES: { id: YouTubeVideoMetadata['privacyStatus']; label: { ja: string; en: string } }[] = [
+    { id: 'private', label: { ja: '非公開', en: 'Private' } },
+    { id: 'unlisted', label: { ja: '限定公開', en: 'Unlisted' } },
+    { id: 'public', label: { ja: '公開', en: 'Public' } },
+];
+
+// YouTube publish options, stored in the YouTube variant
+const YouTubeOptions: React.FC<{
+    options: Partial<YouTubeVideoMetadata>;
+    onChange: (updates: Partial<YouTubeVideoMetadata>) => void;
+    disabled?: boolean;
+    language: 'ja' | 'en';
+}> = ({ options, onChange, disabled, language }) => {
+    const labels = {
+        ja: {
+            privacy: '公開設定',
+            playlist: '追加する再生リストのID（任意）',
+            thumbnail: 'サムネイル画像を選択',
+            removeThumbnail: 'サムネイルを解除',
+        },
+        en: {
+            privacy: 'Visibility',
+            playlist: 'Playlist ID to add to (optional)',
+            thumbnail: 'Choose thumbnail image',
+            removeThumbnail: 'Remove thumbnail',
+        },
+    }[language];
+
+    const pickThumbnail = async () => {
+        const [path] = await mediaService.pickFiles(['jpg', 'jpeg', 'png'], false);
+        if (path) onChange({ thumbnailPath: path });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-sm text-gray-500 mb-2">{labels.privacy}</p>
+                <div className="flex flex-wrap gap-2">
+                    {YOUTUBE_PRIVACY_STATUSES.map((status) => (
+                        <button
+                            key={status.id}
+                            onClick={() => onChange({ privacyStatus: status.id })}
+                            disabled={disabled}
+                            className={cn(
+                                'flex items-center gap-1 px-2 py-1 text-xs rounded border',
+                                (options.privacyStatus ?? 'private') === status.id
+                                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                                    : 'border-gray-200 dark:border-gray-700'
+                            )}
+                        >
+                            {(options.privacyStatus ?? 'private') === status.id && <Check size={12} />}
+                            {status.label[language]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <Input
+                placeholder={labels.playlist}
+                aria-label={labels.playlist}
+                value={options.playlistId ?? ''}
+                onChange={(e) => onChange({ playlistId: e.target.value.trim() || undefined })}
+                disabled={disabled}
+            />
+            <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={pickThumbnail} disabled={disabled}>
+                    <Image size={14} className="mr-2" />
+                    {labels.thumbnail}
+                </Button>
+                {options.thumbnailPath && (
+                    <>
+                        <span className="text-xs text-gray-500 truncate">
+                            {options.thumbnailPath.split(/[\\/]/).pop()}
+                        </span>
+                        <button
+                            onClick={() => onChange({ thumbnailPath: undefined })}
+                            disabled={disabled}
+                            title={labels.removeThumbnail}
+                            className="text-gray-400 hover:text-gray-600"
+                        >
+                            <X size={14} />
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Bluesky embed and reply options, stored in the Bluesky variant
+const BlueskyOptions: React.FC<{
+    options: Partial<BlueskyPostOptions>;
+    onChange: (updates: Partial<BlueskyPostOptions>) => void;
+    disabled?: boolean;
+    language: 'ja' | 'en';
+}> = ({ options, onChange, disabled, language }) => {
+    const labels = {
+        ja: {
+            linkCard: '最初のリンクをカード表示',
+            linkCardHint: 'メディアや引用がある場合はカードを付けません',
+            quote: '引用する投稿のURL（任意）',
+            replyTo: '返信先の投稿のURL（任意）',
+        },
+        en: {
+            linkCard: 'Show a card for the first link',
+            linkCardHint: 'No card is attached when the post has media or a quote',
+            quote: 'URL of the post to quote (optional)',
+            replyTo: 'URL of the post to reply to (optional)',
+        },
+    }[language];
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.linkCard ?? true}
+                    onChange={(e) => onChange({ linkCard: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded"
+                />
+                {labels.linkCard}
+            </label>
+            <p className="text-xs text-gray-500">{labels.linkCardHint}</p>
+            <Input
+                placeholder={labels.quote}
+                aria-label={labels.quote}
+                value={options.quoteUrl ?? ''}
+                onChange={(e) => onChange({ quoteUrl: e.target.value.trim() || undefined })}
+                disabled={disabled}
+            />
+            <Input
+                placeholder={labels.replyTo}
+                aria-label={labels.replyTo}
+                value={options.replyToUrl ?? ''}
+                onChange={(e) => onChange({ replyToUrl: e.target.value.trim() || undefined })}
+                disabled={disabled}
+            />
+        </div>
+    );
+};
+
+const MASTODON_VISIBILITIES: { id: MastodonVisibility; label: { ja: string; en: string } }[] = [
+    { id: 'public', label: { ja: '公開', en: 'Public' } },
+    { id: 'unlisted', label: { ja: '未収載', en: 'Unlisted' } },
+    { id: 'private', label: { ja: 'フォロワーのみ', en: 'Followers only' } },
+    { id: 'direct', label: { ja: 'メンションした相手のみ', en: 'Mentioned people only' } },
+];
+
+// Mastodon status options, stored in the Mastodon variant
+const MastodonOptions: React.FC<{
+    options: Partial<MastodonStatusOptions>;
+    onChange: (updates: Partial<MastodonStatusOptions>) => void;
+    disabled?: boolean;
+    language: 'ja' | 'en';
+}> = ({ options, onChange, disabled, language }) => {
+    const labels = {
+        ja: {
+            visibility: '公開範囲',
+            spoilerText: 'コンテンツ警告（任意）',
+            sensitive: 'メディアを閲覧注意にする',
+        },
+        en: {
+            visibility: 'Visibility',
+            spoilerText: 'Content warning (optional)',
+            sensitive: 'Mark media as sensitive',
+        },
+    }[language];
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-sm text-gray-500 mb-2">{labels.visibility}</p>
+                <div className="flex flex-wrap gap-2">
+                    {MASTODON_VISIBILITIES.map((visibility) => (
+                        <button
+                            key={visibility.id}
+                            onClick={() => onChange({ visibility: visibility.id })}
+                            disabled={disabled}
+                            className={cn(
+                                'flex items-center gap-1 px-2 py-1 text-xs rounded border',
+                                (options.visibility ?? 'public') === visibility.id
+                                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                                    : 'border-gray-200 dark:border-gray-700'
+                            )}
+                        >
+                            {(options.visibility ?? 'public') === visibility.id && <Check size={12} />}
+                            {visibility.label[language]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <Input
+                placeholder={labels.spoilerText}
+                aria-label={labels.spoilerText}
+                value={options.spoilerText ?? ''}
+                onChange={(e) => onChange({ spoilerText: e.target.value || undefined })}
+                disabled={disabled}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.sensitive ?? false}
+                    onChange={(e) => onChange({ sensitive: e.target.checked })}
+                    disabled={disabled}
+                    className="rounded"
+                />
+                {labels.sensitive}
+            </label>
+        </div>
+    );
+};
+
+// Pre-flight checklist row for one target account
+const PreflightRow: React.FC<{
+    account: Account;
+    report: PreflightReport;
+    language: 'ja' | 'en';
+    readyLabel: string;
+}> = ({ account, report, language, readyLabel }) => {
+    const config = PLATFORM_CONFIGS[account.platform];
+
+    return (
+        <div className="py-2 border-b last:border-b-0 border-gray-100 dark:border-gray-800">
+            <div className="flex items-center gap-2 text-sm">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: config.color }} />
+                <span className="font-medium text-gray-900 dark:text-white">@{account.username}</span>
+                <span className="text-xs text-gray-500">{config.name}</span>
+                {report.issues.length === 0 && (
+                    <span className="flex items-center gap-1 ml-auto text-xs text-green-600">
+                        <Check size={14} />
+                        {readyLabel}
+                    </span>
+                )}
+            </div>
+            {report.issues.length > 0 && (
+                <ul className="mt-1 ml-4 space-y-1">
+                    {report.issues.map((issue, index) => (
+                        <li
+                            key={`${issue.rule}-${index}`}
+                            className={cn(
+                                'flex items-start gap-1.5 text-xs',
+                                issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'
+                            )}
+                        >
+                            {issue.severity === 'error'
+                                ? <XCircle size={14} className="flex-shrink-0" />
+                                : <AlertTriangle size={14} className="flex-shrink-0" />}
+                            {issue.message[language]}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 // Post result component
 const PostResultBadge: React.FC<{
     platform: PlatformType;
-    status: 'pending' | 'posting' | 'success' | 'failed';
+    status: 'pending' | 'posting' | 'processing' | 'success' | 'failed';
     url?: string;
     error?: string;
-}> = ({ platform, status, url, error }) => {
+    progress?: PublishProgress;
+    processingLabel: string;
+}> = ({ platform, status, url, error, progress, processingLabel }) => {
     const config = PLATFORM_CONFIGS[platform];
 
     return (
@@ -92,7 +556,7 @@ const PostResultBadge: React.FC<{
             'flex items-center gap-2 px-3 py-2 rounded-lg text-sm',
             status === 'success' && 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
             status === 'failed' && 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
-            status === 'posting' && 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+            (status === 'posting' || status === 'processing') && 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
             status === 'pending' && 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
         )}>
             <div
@@ -103,6 +567,14 @@ const PostResultBadge: React.FC<{
             </div>
             <span className="font-medium">{config.name}</span>
             {status === 'posting' && <Loader2 size={14} className="animate-spin" />}
+            {status === 'posting' && progress && (
+                <span className="text-xs ml-auto">
+                    {progress.stage === 'uploading' && progress.total > 0
+                        ? `${Math.floor((progress.loaded / progress.total) * 100)}%`
+                        : processingLabel}
+                </span>
+            )}
+            {status === 'processing' && <span className="text-xs ml-auto">{processingLabel}</span>}
             {status === 'success' && <Check size={14} />}
             {status === 'failed' && <X size={14} />}
             {url && (
@@ -122,16 +594,43 @@ const PostResultBadge: React.FC<{
 
 // Main PostComposer component
 export const PostComposer: React.FC = () => {
-    const { currentDraft, setDraftContent, clearDraft } = usePostStore();
+    const {
+        currentDraft,
+        setDraftContent,
+        setDraftVariant,
+        resetDraftVariant,
+        setDraftAutoThread,
+        addDraftMedia,
+        removeDraftMedia,
+        moveDraftMedia,
+        setDraftMediaAltText,
+        clearDraft,
+        addPost,
+        updatePost,
+        addCrossPostTarget,
+    } = usePostStore();
     const { accounts, selectedAccountIds, toggleAccountSelection, selectAllAccounts, deselectAllAccounts } = useAccountStore();
     const { language } = useAppStore();
 
     const [isPosting, setIsPosting] = useState(false);
     const [showPreview, setShowPreview] = useState(false);
-    const [postResults, setPostResults] = useState<Map<string, { status: 'posting' | 'success' | 'failed'; url?: string; error?: string }>>(new Map());
+    const [activeVariant, setActiveVariant] = useState<PlatformType | null>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const [isAddingMedia, setIsAddingMedia] = useState(false);
+    const [mediaError, setMediaError] = useState<string | null>(null);
+    const [altEditingPath, setAltEditingPath] = useState<string | null>(null);
+    const [postResults, setPostResults] = useState<Map<string, { status: 'posting' | 'processing' | 'success' | 'failed'; url?: string; error?: string; progress?: PublishProgress }>>(new Map());
 
     const activeAccounts = accounts.filter((a) => a.isActive);
     const selectedAccounts = activeAccounts.filter((a) => selectedAccountIds.includes(a.id));
+    const selectedPlatforms = [...new Set(selectedAccounts.map((a) => a.platform))];
+
+    // Variant tab being edited; null edits the shared content
+    const editingPlatform = activeVariant && selectedPlatforms.includes(activeVariant) ? activeVariant : null;
+    const editingVariant = editingPlatform ? currentDraft.variants[editingPlatform] : undefined;
+    const editorContent = editingPlatform
+        ? resolveVariant(currentDraft, editingPlatform).content
+        : currentDraft.content;
 
     const t = {
         ja: {
@@ -143,12 +642,30 @@ export const PostComposer: React.FC = () => {
             noAccounts: 'アカウントが接続されていません',
             post: '投稿する',
             posting: '投稿中...',
-            addMedia: '画像を追加',
+            addMedia: '画像・動画を追加',
             schedule: '予約投稿',
             characterCount: '文字数',
             postResults: '投稿結果',
             success: '投稿が完了しました！',
             clear: 'クリア',
+            reconnectRequired: '保存された認証情報がありません。アカウントを再接続してください',
+            common: '共通',
+            customized: '個別設定あり',
+            variantTitle: 'タイトル',
+            variantHashtags: 'ハッシュタグ（スペース区切り）',
+            variantMedia: 'この投稿先に添付するメディア',
+            resetVariant: '共通の内容に戻す',
+            autoThread: '長文をスレッドに分割',
+            autoThreadHint: 'X・Bluesky・Threadsで文字数を超えた分を返信として続けて投稿します',
+            threadParts: '件のスレッド',
+            dropMedia: 'ここにドロップして添付',
+            mediaFailed: '読み込めなかったファイル',
+            altText: '画像の説明（代替テキスト）',
+            altTextPlaceholder: '目の不自由な方にも伝わるよう、画像の内容を説明してください',
+            altTextDone: '完了',
+            processing: '処理中',
+            preflight: '投稿前チェック',
+            ready: '投稿できます',
         },
         en: {
             title: 'Create New Post',
@@ -159,35 +676,125 @@ export const PostComposer: React.FC = () => {
             noAccounts: 'No accounts connected',
             post: 'Post',
             posting: 'Posting...',
-            addMedia: 'Add image',
+            addMedia: 'Add media',
             schedule: 'Schedule',
             characterCount: 'Characters',
             postResults: 'Post Results',
             success: 'Posted successfully!',
             clear: 'Clear',
+            reconnectRequired: 'No stored credentials. Please reconnect the account',
+            common: 'Common',
+            customized: 'Customized',
+            variantTitle: 'Title',
+            variantHashtags: 'Hashtags (space separated)',
+            variantMedia: 'Media attached for this platform',
+            resetVariant: 'Reset to common content',
+            autoThread: 'Split long text into a thread',
+            autoThreadHint: 'Text over the limit on X, Bluesky and Threads continues as numbered replies',
+            threadParts: 'posts in thread',
+            dropMedia: 'Drop files to attach',
+            mediaFailed: 'Could not load',
+            altText: 'Image description (alt text)',
+            altTextPlaceholder: 'Describe the image for people who cannot see it',
+            altTextDone: 'Done',
+            processing: 'Processing',
+            preflight: 'Pre-flight check',
+            ready: 'Ready to post',
         },
     };
 
     const labels = t[language];
 
-    // Get character count for each platform
+    // Get character count for each platform, using its variant text
     const getCharacterLimits = useCallback(() => {
-        const graphemeCount = [...currentDraft.content].length;
-        const limits: { platform: string; current: number; max: number }[] = [];
+        const limits: { platform: string; threadable: boolean; current: number; max: number; parts: number }[] = [];
 
         for (const account of selectedAccounts) {
             const config = PLATFORM_CONFIGS[account.platform];
             if (!limits.find((l) => l.platform === config.name)) {
+                const content = resolveVariant(currentDraft, account.platform).content;
                 limits.push({
                     platform: config.name,
-                    current: graphemeCount,
+                    threadable: supportsThreads(account.platform),
+                    current: getTextLength(content, account.platform),
                     max: config.maxTextLength,
+                    parts: getThreadParts(content, account.platform, currentDraft.autoThread).length,
                 });
             }
         }
 
         return limits;
-    }, [currentDraft.content, selectedAccounts]);
+    }, [currentDraft, selectedAccounts]);
+
+    const handleEditorChange = (value: string) => {
+        if (editingPlatform) {
+            setDraftVariant(editingPlatform, { content: value });
+        } else {
+            setDraftContent(value);
+        }
+    };
+
+    // Probe files one at a time so thumbnails are written in order
+    const addMediaFiles = useCallback(async (paths: string[]) => {
+        if (paths.length === 0) return;
+
+        setIsAddingMedia(true);
+        setMediaError(null);
+        const failed: string[] = [];
+
+        for (const path of paths) {
+            try {
+                addDraftMedia(await mediaService.probe(path));
+            } catch (error) {
+                console.error('[PostComposer] Failed to add media:', error);
+                failed.push(path.split(/[\\/]/).pop() || path);
+            }
+        }
+
+        if (failed.length > 0) setMediaError(failed.join(', '));
+        setIsAddingMedia(false);
+    }, [addDraftMedia]);
+
+    const handlePickMedia = async () => {
+        addMediaFiles(await mediaService.pickFiles());
+    };
+
+    useEffect(() => {
+        const unlisten = mediaService.onFileDrop({
+            onHover: setIsDraggingFiles,
+            onDrop: addMediaFiles,
+        });
+        return () => {
+            unlisten.then((stop) => stop());
+        };
+    }, [addMediaFiles]);
+
+    const toggleVariantMedia = (platform: PlatformType, path: string) => {
+        const current = resolveVariant(currentDraft, platform).mediaPaths;
+        const mediaPaths = current.includes(path)
+            ? current.filter((p) => p !== path)
+            : currentDraft.mediaPaths.filter((p) => p === path || current.includes(p));
+        setDraftVariant(platform, { mediaPaths });
+    };
+
+    // The draft as a post, so preview and pre-flight see what will be published
+    const toPost = (id: string, status: PostStatus): Post => {
+        const now = new Date();
+        return {
+            id,
+            title: currentDraft.title,
+            content: currentDraft.content,
+            contentType: currentDraft.contentType,
+            mediaPaths: currentDraft.mediaPaths,
+            media: currentDraft.media.map((file) => ({ ...file, postId: id })),
+            hashtags: currentDraft.hashtags,
+            variants: currentDraft.variants,
+            autoThread: currentDraft.autoThread,
+            status,
+            createdAt: now,
+            updatedAt: now,
+        };
+    };
 
     const handlePost = async () => {
         if (selectedAccounts.length === 0 || !currentDraft.content.trim()) return;
@@ -195,53 +802,59 @@ export const PostComposer: React.FC = () => {
         setIsPosting(true);
         setPostResults(new Map());
 
+        const post = toPost(crypto.randomUUID(), 'posting');
+        addPost(post);
+
+        let successCount = 0;
+        let processingCount = 0;
+
         for (const account of selectedAccounts) {
             // Set posting status
             setPostResults((prev) => new Map(prev).set(account.id, { status: 'posting' }));
 
-            try {
-                if (account.platform === 'bluesky') {
-                    // Check if we need to re-authenticate
-                    if (!blueskyService.isAuthenticated()) {
-                        // For now, skip - in production, we'd load credentials from storage
-                        setPostResults((prev) => new Map(prev).set(account.id, {
-                            status: 'failed',
-                            error: '再認証が必要です'
-                        }));
-                        continue;
-                    }
-
-                    const result = await blueskyService.createPost({
-                        text: currentDraft.content,
-                        hashtags: currentDraft.hashtags,
-                    });
-
-                    if (result.success) {
-                        setPostResults((prev) => new Map(prev).set(account.id, {
-                            status: 'success',
-                            url: result.platformPostUrl
-                        }));
-                    } else {
-                        setPostResults((prev) => new Map(prev).set(account.id, {
-                            status: 'failed',
-                            error: result.error
-                        }));
-                    }
-                } else {
-                    // Other platforms not yet implemented
-                    setPostResults((prev) => new Map(prev).set(account.id, {
-                        status: 'failed',
-                        error: '未対応プラットフォーム'
-                    }));
-                }
-            } catch (error) {
+            const target: CrossPostTarget = {
+                id: crypto.randomUUID(),
+                postId: post.id,
+                accountId: account.id,
+                status: 'pending',
+                retryCount: 0,
+            };
+            addCrossPostTarget(target);
+
+            const result = await postDispatcher.publishToTarget(post, target, {
+                onProgress: (progress) => setPostResults((prev) => new Map(prev).set(account.id, { status: 'posting', progress })),
+            });
+
+            if (result.success) {
+                successCount++;
+                setPostResults((prev) => new Map(prev).set(account.id, {
+                    status: 'success',
+                    url: result.platformPostUrl
+                }));
+            } else if (result.errorCode === 'PUBLISH_PENDING') {
+                // Uploaded; the platform is still processing the video
+                processingCount++;
+                setPostResults((prev) => new Map(prev).set(account.id, { status: 'processing' }));
+            } else {
                 setPostResults((prev) => new Map(prev).set(account.id, {
                     status: 'failed',
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: result.errorCode === 'NOT_AUTHENTICATED' ? labels.reconnectRequired : result.error
                 }));
             }
         }
 
+        updatePost(post.id, {
+            status: successCount === selectedAccounts.length
+                ? 'posted'
+                : processingCount > 0 ? 'posting' : successCount > 0 ? 'partial' : 'failed',
+            postedAt: successCount > 0 ? new Date() : undefined,
+        });
+
+        // The follow-up job settles the post once the processing uploads finish
+        if (processingCount > 0) {
+            schedulerService.followUpProcessing(post);
+        }
+
         setIsPosting(false);
     };
 
@@ -251,8 +864,16 @@ export const PostComposer: React.FC = () => {
     };
 
     const characterLimits = getCharacterLimits();
-    const hasOverLimit = characterLimits.some((l) => l.current > l.max);
-    const canPost = selectedAccounts.length > 0 && currentDraft.content.trim() && !hasOverLimit && !isPosting;
+    const canSplitIntoThread = characterLimits.some((l) => l.current > l.max && l.threadable);
+
+    const draftPost = toPost('draft', 'draft');
+    const altEditingFile = currentDraft.media.find((file) => file.filePath === altEditingPath);
+
+    const preflightReports = selectedAccounts.map((account) =>
+        preflightValidator.validate(account, buildPostContent(draftPost, account.platform))
+    );
+    const hasBlockingIssues = preflightReports.some((r) => r.blocking);
+    const canPost = selectedAccounts.length > 0 && currentDraft.content.trim() && !hasBlockingIssues && !isPosting;
 
     return (
         <div className="space-y-6 animate-fade-in">
@@ -268,16 +889,189 @@ export const PostComposer: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Main Editor */}
                 <div className="lg:col-span-2 space-y-4">
-                    <Card>
+                    <Card className="relative">
+                        {isDraggingFiles && !isPosting && (
+                            <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary-500 bg-primary-50/90 dark:bg-primary-900/60 text-primary-600 dark:text-primary-300 pointer-events-none">
+                                <Upload size={32} />
+                                <span className="text-sm font-medium">{labels.dropMedia}</span>
+                            </div>
+                        )}
                         <CardContent className="p-4">
+                            {/* Per-platform variant tabs */}
+                            {selectedPlatforms.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mb-4 pb-4 border-b">
+                                    <VariantTab
+                                        label={labels.common}
+                                        isActive={!editingPlatform}
+                                        onClick={() => setActiveVariant(null)}
+                                    />
+                                    {selectedPlatforms.map((platform) => (
+                                        <VariantTab
+                                            key={platform}
+                                            label={PLATFORM_CONFIGS[platform].name}
+                                            color={PLATFORM_CONFIGS[platform].color}
+                                            isActive={editingPlatform === platform}
+                                            isCustomized={hasVariantOverrides(currentDraft.variants[platform])}
+                                            customizedLabel={labels.customized}
+                                            onClick={() => setActiveVariant(platform)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+
                             <Textarea
-                                value={currentDraft.content}
-                                onChange={(e) => setDraftContent(e.target.value)}
+                                value={editorContent}
+                                onChange={(e) => handleEditorChange(e.target.value)}
                                 placeholder={labels.placeholder}
                                 className="min-h-[200px] resize-none border-0 focus:ring-0 text-lg"
                                 disabled={isPosting}
                             />
 
+                            {/* Attached media */}
+                            {currentDraft.media.length > 0 && (
+                                <div className="flex flex-wrap gap-3 mt-4">
+                                    {currentDraft.media.map((file, index) => (
+                                        <MediaTile
+                                            key={file.id}
+                                            file={file}
+                                            isFirst={index === 0}
+                                            isLast={index === currentDraft.media.length - 1}
+                                            disabled={isPosting}
+                                            isEditingAlt={altEditingPath === file.filePath}
+                                            altLabel={labels.altText}
+                                            onMove={(direction) => moveDraftMedia(file.filePath, index + direction)}
+                                            onRemove={() => removeDraftMedia(file.filePath)}
+                                            onEditAlt={() => setAltEditingPath(
+                                                altEditingPath === file.filePath ? null : file.filePath
+                                            )}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            {altEditingFile && (
+                                <div className="mt-3 space-y-2">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                        {labels.altText}: <span className="font-normal text-gray-500">{altEditingFile.fileName}</span>
+                                    </label>
+                                    <Textarea
+                                        value={altEditingFile.altText ?? ''}
+                                        onChange={(e) => setDraftMediaAltText(altEditingFile.filePath, e.target.value)}
+                                        placeholder={labels.altTextPlaceholder}
+                                        disabled={isPosting}
+                                        autoFocus
+                                    />
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-xs text-gray-500">{[...(altEditingFile.altText ?? '')].length}</span>
+                                        <Button size="sm" variant="outline" onClick={() => setAltEditingPath(null)}>
+                                            {labels.altTextDone}
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                            {mediaError && (
+                                <p className="mt-2 text-xs text-red-500">{labels.mediaFailed}: {mediaError}</p>
+                            )}
+
+                            {/* Variant-only fields */}
+                            {editingPlatform && (
+                                <div className="space-y-3 mt-4 pt-4 border-t">
+                                    {(editingPlatform === 'youtube' || editingPlatform === 'tiktok') && (
+                                        <Input
+                                            placeholder={labels.variantTitle}
+                                            value={editingVariant?.title ?? currentDraft.title ?? ''}
+                                            onChange={(e) => setDraftVariant(editingPlatform, { title: e.target.value || undefined })}
+                                            disabled={isPosting}
+                                        />
+                                    )}
+                                    {editingPlatform === 'youtube' && (
+                                        <YouTubeOptions
+                                            options={(editingVariant?.options ?? {}) as Partial<YouTubeVideoMetadata>}
+                                            onChange={(updates) => setDraftVariant('youtube', {
+                                                options: { ...editingVariant?.options, ...updates },
+                                            })}
+                                            disabled={isPosting}
+                                            language={language}
+                                        />
+                                    )}
+                                    {editingPlatform === 'bluesky' && (
+                                        <BlueskyOptions
+                                            options={(editingVariant?.options ?? {}) as Partial<BlueskyPostOptions>}
+                                            onChange={(updates) => setDraftVariant('bluesky', {
+                                                options: { ...editingVariant?.options, ...updates },
+                                            })}
+                                            disabled={isPosting}
+                                            language={language}
+                                        />
+                                    )}
+                                    {editingPlatform === 'mastodon' && (
+                                        <MastodonOptions
+                                            options={(editingVariant?.options ?? {}) as Partial<MastodonStatusOptions>}
+                                            onChange={(updates) => setDraftVariant('mastodon', {
+                                                options: { ...editingVariant?.options, ...updates },
+                                            })}
+                                            disabled={isPosting}
+                                            language={language}
+                                        />
+                                    )}
+                                    {editingPlatform === 'tiktok' && (
+                                        <TikTokOptions
+                                            options={(editingVariant?.options ?? {}) as Partial<TikTokVideoMetadata>}
+                                            onChange={(updates) => setDraftVariant('tiktok', {
+                                                options: { ...editingVariant?.options, ...updates },
+                                            })}
+                                            disabled={isPosting}
+                                            language={language}
+                                        />
+                                    )}
+                                    <Input
+                                        key={`hashtags-${editingPlatform}`}
+                                        placeholder={labels.variantHashtags}
+                                        defaultValue={(editingVariant?.hashtags ?? currentDraft.hashtags).join(' ')}
+                                        onBlur={(e) => setDraftVariant(editingPlatform, {
+                                            hashtags: e.target.value.split(/\s+/).filter(Boolean),
+                                        })}
+                                        disabled={isPosting}
+                                    />
+                                    {currentDraft.mediaPaths.length > 0 && (
+                                        <div>
+                                            <p className="text-sm text-gray-500 mb-2">{labels.variantMedia}</p>
+                                            <div className="flex flex-wrap gap-2">
+                                                {currentDraft.mediaPaths.map((path) => {
+                                                    const included = resolveVariant(currentDraft, editingPlatform).mediaPaths.includes(path);
+                                                    return (
+                                                        <button
+                                                            key={path}
+                                                            onClick={() => toggleVariantMedia(editingPlatform, path)}
+                                                            disabled={isPosting}
+                                                            className={cn(
+                                                                'flex items-center gap-1 px-2 py-1 text-xs rounded border',
+                                                                included
+                                                                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                                                                    : 'border-gray-200 dark:border-gray-700 opacity-60'
+                                                            )}
+                                                        >
+                                                            {included && <Check size={12} />}
+                                                            {path.split(/[\\/]/).pop()}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    )}
+                                    {hasVariantOverrides(editingVariant) && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => resetDraftVariant(editingPlatform)}
+                                            disabled={isPosting}
+                                        >
+                                            <RotateCcw size={14} className="mr-2" />
+                                            {labels.resetVariant}
+                                        </Button>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Character counters */}
                             {characterLimits.length > 0 && (
                                 <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t">
@@ -287,16 +1081,37 @@ export const PostComposer: React.FC = () => {
                                             current={limit.current}
                                             max={limit.max}
                                             platform={limit.platform}
+                                            parts={limit.parts}
+                                            partsLabel={labels.threadParts}
                                         />
                                     ))}
                                 </div>
                             )}
 
+                            {/* Thread splitting */}
+                            {(canSplitIntoThread || currentDraft.autoThread) && (
+                                <label className="flex items-start gap-2 mt-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={currentDraft.autoThread}
+                                        onChange={(e) => setDraftAutoThread(e.target.checked)}
+                                        disabled={isPosting}
+                                        className="mt-0.5"
+                                    />
+                                    <span>
+                                        {labels.autoThread}
+                                        <span className="block text-xs text-gray-500">{labels.autoThreadHint}</span>
+                                    </span>
+                                </label>
+                            )}
+
                             {/* Action buttons */}
                             <div className="flex items-center justify-between mt-4 pt-4 border-t">
                                 <div className="flex gap-2">
-                                    <Button variant="outline" size="sm" disabled>
-                                        <Image size={16} className="mr-2" />
+                                    <Button variant="outline" size="sm" onClick={handlePickMedia} disabled={isPosting || isAddingMedia}>
+                                        {isAddingMedia
+                                            ? <Loader2 size={16} className="mr-2 animate-spin" />
+                                            : <Image size={16} className="mr-2" />}
                                         {labels.addMedia}
                                     </Button>
                                     <Button variant="outline" size="sm" disabled>
@@ -333,6 +1148,29 @@ export const PostComposer: React.FC = () => {
                         </CardContent>
                     </Card>
 
+                    {/* Pre-flight checklist */}
+                    {currentDraft.content && selectedAccounts.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-lg flex items-center gap-2">
+                                    <ClipboardCheck size={18} />
+                                    {labels.preflight}
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {selectedAccounts.map((account, index) => (
+                                    <PreflightRow
+                                        key={account.id}
+                                        account={account}
+                                        report={preflightReports[index]}
+                                        language={language}
+                                        readyLabel={labels.ready}
+                                    />
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Post Results */}
                     {postResults.size > 0 && (
                         <Card>
@@ -350,6 +1188,8 @@ export const PostComposer: React.FC = () => {
                                             status={result.status}
                                             url={result.url}
                                             error={result.error}
+                                            progress={result.progress}
+                                            processingLabel={labels.processing}
                                         />
                                     );
                                 })}
@@ -361,7 +1201,7 @@ export const PostComposer: React.FC = () => {
                     {showPreview && currentDraft.content && (
                         <Card>
                             <CardContent className="p-4">
-                                <PostPreview content={currentDraft.content} />
+                                <PostPreview />
                             </CardContent>
                         </Card>
                     )}
@@ -13,6 +13,9 @@ import { Button } from '../ui/Button';
 import { usePostStore, useAppStore, useAccountStore } from '../../stores';
 import { PLATFORM_CONFIGS, PlatformType } from '../../types';
 import { cn } from '../../lib/utils';
+import { resolveVariant } from '../../lib/variants';
+import { getThreadParts } from '../../lib/thread';
+import { getTextLength, truncateToLength } from '../../lib/textLength';
 
 // Platform icons (simple text for now since lucide doesn't have all)
 const platformIcons: Record<string, React.ReactNode> = {
@@ -22,20 +25,24 @@ const platformIcons: Record<string, React.ReactNode> = {
     threads: <span className="text-lg">@</span>,
     tiktok: <span className="text-lg">♪</span>,
     x: <span className="font-bold">𝕏</span>,
+    mastodon: <span className="text-lg">🐘</span>,
 };
 
 // Preview card for each platform
 const PlatformPreview: React.FC<{
     platform: PlatformType;
     content: string;
+    threadParts?: string[];
     username?: string;
-}> = ({ platform, content, username }) => {
+    // Mastodon content warning, shown above the collapsed text
+    contentWarning?: string;
+}> = ({ platform, content, threadParts = [], username, contentWarning }) => {
     const config = PLATFORM_CONFIGS[platform];
+    const isThread = threadParts.length > 1;
     const displayName = username || 'あなたのアカウント';
-    const truncatedContent = content.length > config.maxTextLength
-        ? content.slice(0, config.maxTextLength - 3) + '...'
-        : content;
-    const isOverLimit = content.length > config.maxTextLength;
+    const length = getTextLength(content, platform);
+    const truncatedContent = truncateToLength(content, platform, config.maxTextLength);
+    const isOverLimit = length > config.maxTextLength && !isThread;
 
     return (
         <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
@@ -56,21 +63,43 @@ const PlatformPreview: React.FC<{
                 {platformIcons[platform]}
             </div>
 
-            {/* Content */}
-            <div className="p-4">
-                <p className={cn(
-                    'text-sm whitespace-pre-wrap',
-                    isOverLimit ? 'text-red-500' : 'text-gray-900 dark:text-white'
-                )}>
-                    {truncatedContent || 'ここに投稿内容が表示されます...'}
-                </p>
-            </div>
+            {/* Content: a thread shows each reply below the previous one */}
+            {isThread ? (
+                <div className="p-4 space-y-3">
+                    {threadParts.map((part, index) => (
+                        <p
+                            key={index}
+                            className={cn(
+                                'text-sm whitespace-pre-wrap text-gray-900 dark:text-white',
+                                index > 0 && 'pl-3 border-l-2 border-gray-200 dark:border-gray-700'
+                            )}
+                        >
+                            {part}
+                        </p>
+                    ))}
+                </div>
+            ) : (
+                <div className="p-4">
+                    {contentWarning && (
+                        <p className="mb-2 px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                            CW: {contentWarning}
+                        </p>
+                    )}
+                    <p className={cn(
+                        'text-sm whitespace-pre-wrap',
+                        isOverLimit ? 'text-red-500' : 'text-gray-900 dark:text-white'
+                    )}>
+                        {truncatedContent || 'ここに投稿内容が表示されます...'}
+                    </p>
+                </div>
+            )}
 
             {/* Footer */}
             <div className="px-4 pb-3 flex items-center justify-between text-xs text-gray-500">
                 <span>
-                    {content.length} / {config.maxTextLength}
+                    {length} / {config.maxTextLength}
                     {isOverLimit && ' ⚠️ 文字数超過'}
+                    {isThread && ` • ${threadParts.length}件のスレッド`}
                 </span>
                 <span>{config.name}</span>
             </div>
@@ -92,6 +121,10 @@ export const PostPreview: React.FC<{
 
     const content = propContent ?? currentDraft.content;
 
+    // An explicit content prop previews the same text everywhere
+    const getPlatformContent = (platform: PlatformType): string =>
+        propContent ?? resolveVariant(currentDraft, platform).content;
+
     const t = {
         ja: {
             title: '投稿プレビュー',
@@ -113,7 +146,7 @@ export const PostPreview: React.FC<{
 
     const labels = t[language];
 
-    const platforms: PlatformType[] = ['bluesky', 'x', 'youtube', 'instagram', 'threads', 'tiktok'];
+    const platforms: PlatformType[] = ['bluesky', 'x', 'youtube', 'instagram', 'threads', 'tiktok', 'mastodon'];
 
     const filteredPlatforms = selectedPlatform === 'all'
         ? platforms
@@ -198,8 +231,12 @@ export const PostPreview: React.FC<{
                         <PlatformPreview
                             key={platform}
                             platform={platform}
-                            content={content}
+                            content={getPlatformContent(platform)}
+                            threadParts={getThreadParts(getPlatformContent(platform), platform, currentDraft.autoThread)}
                             username={getAccountUsername(platform)}
+                            contentWarning={platform === 'mastodon' && !propContent
+                                ? resolveVariant(currentDraft, 'mastodon').options?.spoilerText as string | undefined
+                                : undefined}
                         />
                     ))}
                 </div>
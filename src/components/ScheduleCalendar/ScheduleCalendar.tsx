@@ -6,10 +6,14 @@ import {
     Clock,
     Edit2,
     Trash2,
+    AlertTriangle,
+    Send,
+    SkipForward,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { useScheduleStore, usePostStore, useAppStore } from '../../stores';
+import { schedulerService } from '../../services/scheduler';
 import { cn } from '../../lib/utils';
 
 // Calendar day component
@@ -94,6 +98,50 @@ const ScheduledPostItem: React.FC<{
     );
 };
 
+// Missed post item component
+const MissedPostItem: React.FC<{
+    postId: string;
+    scheduledAt: Date;
+    onPostNow: () => void;
+    onSkip: () => void;
+}> = ({ postId, scheduledAt, onPostNow, onSkip }) => {
+    const { posts } = usePostStore();
+    const { language } = useAppStore();
+    const post = posts.find((p) => p.id === postId);
+
+    if (!post) return null;
+
+    const dateTime = new Date(scheduledAt).toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+    return (
+        <div className="flex items-center gap-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+            <div className="flex items-center gap-1 text-sm text-yellow-700 dark:text-yellow-300">
+                <Clock size={14} />
+                <span>{dateTime}</span>
+            </div>
+            <p className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white truncate">
+                {post.content.substring(0, 50)}
+                {post.content.length > 50 && '...'}
+            </p>
+            <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={onPostNow}>
+                    <Send size={14} className="mr-1" />
+                    {language === 'ja' ? '今すぐ投稿' : 'Post now'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={onSkip}>
+                    <SkipForward size={14} className="mr-1" />
+                    {language === 'ja' ? 'スキップ' : 'Skip'}
+                </Button>
+            </div>
+        </div>
+    );
+};
+
 // Main ScheduleCalendar component
 export const ScheduleCalendar: React.FC = () => {
     const [currentDate, setCurrentDate] = useState(new Date());
@@ -109,6 +157,7 @@ export const ScheduleCalendar: React.FC = () => {
             scheduledFor: '予約投稿',
             cancel: 'キャンセル',
             pendingPosts: '件の予約投稿',
+            missedTitle: 'アプリ終了中に予定時刻を過ぎた投稿',
         },
         en: {
             title: 'Schedule Calendar',
@@ -117,6 +166,7 @@ export const ScheduleCalendar: React.FC = () => {
             scheduledFor: 'Scheduled for',
             cancel: 'Cancel',
             pendingPosts: 'scheduled posts',
+            missedTitle: 'Posts missed while the app was closed',
         },
     };
 
@@ -207,6 +257,7 @@ export const ScheduleCalendar: React.FC = () => {
         : ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
     const pendingCount = scheduledPosts.filter((sp) => sp.status === 'pending').length;
+    const missedPosts = scheduledPosts.filter((sp) => sp.status === 'missed');
 
     return (
         <div className="space-y-6 animate-fade-in">
@@ -225,6 +276,29 @@ export const ScheduleCalendar: React.FC = () => {
                 </Button>
             </div>
 
+            {/* Missed posts awaiting a decision */}
+            {missedPosts.length > 0 && (
+                <Card className="border-yellow-300 dark:border-yellow-700">
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <AlertTriangle size={18} className="text-yellow-500" />
+                            {labels.missedTitle}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {missedPosts.map((sp) => (
+                            <MissedPostItem
+                                key={sp.id}
+                                postId={sp.postId}
+                                scheduledAt={sp.scheduledAt}
+                                onPostNow={() => schedulerService.resolveMissedJob(sp.id, 'post')}
+                                onSkip={() => schedulerService.resolveMissedJob(sp.id, 'skip')}
+                            />
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Calendar */}
                 <Card className="lg:col-span-2">
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     Sun,
     Moon,
@@ -10,10 +10,17 @@ import {
     Trash2,
     RefreshCw,
     Check,
+    KeyRound,
+    CloudUpload,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/Card';
 import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { credentialVault, mediaHostService } from '../../services';
+import type { VaultStatus } from '../../services';
 import { useAppStore, useAccountStore, usePostStore, useScheduleStore } from '../../stores';
+import type { MissedPostPolicy } from '../../stores';
+import type { MediaHostConfig, MediaHostSecrets, MediaHostType } from '../../types';
 import { cn } from '../../lib/utils';
 
 // Setting section component
@@ -99,6 +106,357 @@ const LanguageSelector: React.FC<{
     );
 };
 
+// Missed scheduled post policy selector component
+const MissedPostPolicySelector: React.FC<{
+    value: MissedPostPolicy;
+    onChange: (policy: MissedPostPolicy) => void;
+    language: 'ja' | 'en';
+}> = ({ value, onChange, language }) => {
+    const policies: { id: MissedPostPolicy; label: { ja: string; en: string } }[] = [
+        { id: 'post', label: { ja: 'すぐに投稿', en: 'Post now' } },
+        { id: 'skip', label: { ja: 'スキップ', en: 'Skip' } },
+        { id: 'ask', label: { ja: '毎回確認', en: 'Ask' } },
+    ];
+
+    return (
+        <div className="flex gap-2">
+            {policies.map((policy) => (
+                <button
+                    key={policy.id}
+                    onClick={() => onChange(policy.id)}
+                    className={cn(
+                        'flex items-center gap-2 px-4 py-2 rounded-lg border transition-all',
+                        value === policy.id
+                            ? 'bg-primary-100 dark:bg-primary-900/30 border-primary-500'
+                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    )}
+                >
+                    <span className="text-sm">{policy.label[language]}</span>
+                    {value === policy.id && <Check size={14} className="text-primary-500" />}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Credential vault status, unlock and passphrase controls
+const CredentialVaultSettings: React.FC<{
+    language: 'ja' | 'en';
+}> = ({ language }) => {
+    const [status, setStatus] = useState<VaultStatus | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const t = {
+        ja: {
+            keySource: '暗号化キーの保管場所',
+            keyring: 'OSのキーチェーン',
+            passphrase: 'パスフレーズ',
+            file: 'ローカルキーファイル',
+            notCreated: '未作成（最初のアカウント接続時に作成されます）',
+            unavailable: 'ブラウザ版では利用できません',
+            locked: '保管庫はロックされています。パスフレーズを入力してください',
+            passphrasePlaceholder: 'パスフレーズ（8文字以上）',
+            unlock: 'ロック解除',
+            setPassphrase: 'パスフレーズで保護',
+        },
+        en: {
+            keySource: 'Encryption key storage',
+            keyring: 'OS keychain',
+            passphrase: 'Passphrase',
+            file: 'Local key file',
+            notCreated: 'Not created yet (created when the first account is connected)',
+            unavailable: 'Not available in the browser build',
+            locked: 'The vault is locked. Enter your passphrase',
+            passphrasePlaceholder: 'Passphrase (8+ characters)',
+            unlock: 'Unlock',
+            setPassphrase: 'Protect with passphrase',
+        },
+    };
+
+    const labels = t[language];
+
+    useEffect(() => {
+        credentialVault.getStatus().then(setStatus).catch((e) => setError(String(e)));
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            if (status?.locked) {
+                await credentialVault.unlock(passphrase);
+            } else {
+                await credentialVault.setPassphrase(passphrase);
+            }
+            setPassphrase('');
+            setStatus(await credentialVault.getStatus());
+        } catch (e) {
+            setError(String(e));
+        }
+
+        setIsSaving(false);
+    };
+
+    if (!credentialVault.isAvailable()) {
+        return <p className="text-sm text-gray-500">{labels.unavailable}</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900 dark:text-white">{labels.keySource}</p>
+                <span className="text-sm text-gray-500">
+                    {status?.keySource ? labels[status.keySource] : labels.notCreated}
+                </span>
+            </div>
+            {status?.locked && <p className="text-sm text-yellow-600">{labels.locked}</p>}
+            {status?.keySource && (
+                <form onSubmit={handleSubmit} className="flex gap-2">
+                    <Input
+                        type="password"
+                        placeholder={labels.passphrasePlaceholder}
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        disabled={isSaving}
+                        minLength={8}
+                        required
+                    />
+                    <Button type="submit" variant="outline" disabled={isSaving}>
+                        {status.locked ? labels.unlock : labels.setPassphrase}
+                    </Button>
+                </form>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+const EMPTY_S3_HOST: MediaHostConfig = {
+    type: 's3',
+    endpoint: '',
+    region: 'us-east-1',
+    bucket: '',
+    accessKeyId: '',
+    pathStyle: true,
+    deleteAfterPublish: true,
+};
+
+const EMPTY_HTTP_HOST: MediaHostConfig = {
+    type: 'http',
+    uploadUrl: '',
+    fieldName: 'file',
+    urlField: 'url',
+    deleteAfterPublish: false,
+};
+
+// Media host used to give local images a public URL for Instagram and Threads
+const MediaHostSettings: React.FC<{
+    language: 'ja' | 'en';
+}> = ({ language }) => {
+    const { mediaHost, setMediaHost } = useAppStore();
+    const [draft, setDraft] = useState<MediaHostConfig | null>(mediaHost);
+    const [secrets, setSecrets] = useState<MediaHostSecrets>({});
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const t = {
+        ja: {
+            none: '使用しない',
+            s3: 'S3互換ストレージ',
+            http: 'HTTPアップロード',
+            endpoint: 'エンドポイント（例: http://localhost:9000）',
+            region: 'リージョン',
+            bucket: 'バケット',
+            accessKeyId: 'アクセスキーID',
+            secretAccessKey: 'シークレットアクセスキー',
+            prefix: 'キーの接頭辞（任意）',
+            pathStyle: 'パス形式のURLを使う（MinIOなど）',
+            publicBaseUrl: '公開URLのベース（任意）',
+            uploadUrl: 'アップロードURL',
+            fieldName: 'ファイルのフィールド名',
+            urlField: 'レスポンス内のURLの位置（例: data.url）',
+            deleteUrlField: 'レスポンス内の削除URLの位置（任意）',
+            authToken: '認証トークン（任意）',
+            deleteAfterPublish: '投稿後にアップロードを削除',
+            save: '保存',
+            test: '接続テスト',
+            saved: '保存しました',
+            testOk: 'アップロードと削除に成功しました',
+            secretUnchanged: '（変更しない場合は空欄）',
+        },
+        en: {
+            none: 'None',
+            s3: 'S3-compatible storage',
+            http: 'HTTP upload',
+            endpoint: 'Endpoint (e.g. http://localhost:9000)',
+            region: 'Region',
+            bucket: 'Bucket',
+            accessKeyId: 'Access key ID',
+            secretAccessKey: 'Secret access key',
+            prefix: 'Key prefix (optional)',
+            pathStyle: 'Use path-style URLs (MinIO etc.)',
+            publicBaseUrl: 'Public base URL (optional)',
+            uploadUrl: 'Upload URL',
+            fieldName: 'File field name',
+            urlField: 'URL location in the response (e.g. data.url)',
+            deleteUrlField: 'Delete URL location in the response (optional)',
+            authToken: 'Auth token (optional)',
+            deleteAfterPublish: 'Delete uploads after publishing',
+            save: 'Save',
+            test: 'Test connection',
+            saved: 'Saved',
+            testOk: 'Upload and delete succeeded',
+            secretUnchanged: ' (leave empty to keep the current value)',
+        },
+    };
+
+    const labels = t[language];
+
+    const selectType = (type: MediaHostType | null) => {
+        setMessage(null);
+        if (type === draft?.type) return;
+        setDraft(type === 's3' ? EMPTY_S3_HOST : type === 'http' ? EMPTY_HTTP_HOST : null);
+    };
+
+    const update = (changes: Partial<MediaHostConfig>) => {
+        setDraft((current) => (current ? ({ ...current, ...changes } as MediaHostConfig) : current));
+    };
+
+    const field = (key: string, label: string, value: string | undefined) => (
+        <Input
+            key={key}
+            placeholder={label}
+            aria-label={label}
+            value={value ?? ''}
+            onChange={(e) => update({ [key]: e.target.value } as Partial<MediaHostConfig>)}
+        />
+    );
+
+    // Only overwrite vault secrets the user actually typed
+    const saveSecrets = async () => {
+        if (!secrets.secretAccessKey && !secrets.authToken) return;
+        const current = await mediaHostService.loadSecrets();
+        await mediaHostService.saveSecrets({ ...current, ...secrets });
+        setSecrets({});
+    };
+
+    const run = async (action: () => Promise<string>) => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            await saveSecrets();
+            setMessage({ ok: true, text: await action() });
+        } catch (e) {
+            setMessage({ ok: false, text: e instanceof Error ? e.message : String(e) });
+        }
+        setIsBusy(false);
+    };
+
+    const handleSave = () => run(async () => {
+        setMediaHost(draft);
+        return labels.saved;
+    });
+
+    const handleTest = () => run(async () => {
+        if (!draft) return labels.saved;
+        await mediaHostService.testConnection(draft);
+        return labels.testOk;
+    });
+
+    const types: { id: MediaHostType | null; label: string }[] = [
+        { id: null, label: labels.none },
+        { id: 's3', label: labels.s3 },
+        { id: 'http', label: labels.http },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                {types.map((type) => (
+                    <button
+                        key={type.id ?? 'none'}
+                        onClick={() => selectType(type.id)}
+                        className={cn(
+                            'flex items-center gap-2 px-4 py-2 rounded-lg border transition-all',
+                            (draft?.type ?? null) === type.id
+                                ? 'bg-primary-100 dark:bg-primary-900/30 border-primary-500'
+                                : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                        )}
+                    >
+                        <span className="text-sm">{type.label}</span>
+                        {(draft?.type ?? null) === type.id && <Check size={14} className="text-primary-500" />}
+                    </button>
+                ))}
+            </div>
+
+            {draft?.type === 's3' && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                    {field('endpoint', labels.endpoint, draft.endpoint)}
+                    {field('region', labels.region, draft.region)}
+                    {field('bucket', labels.bucket, draft.bucket)}
+                    {field('prefix', labels.prefix, draft.prefix)}
+                    {field('accessKeyId', labels.accessKeyId, draft.accessKeyId)}
+                    <Input
+                        type="password"
+                        placeholder={`${labels.secretAccessKey}${labels.secretUnchanged}`}
+                        aria-label={labels.secretAccessKey}
+                        value={secrets.secretAccessKey ?? ''}
+                        onChange={(e) => setSecrets({ ...secrets, secretAccessKey: e.target.value })}
+                    />
+                    {field('publicBaseUrl', labels.publicBaseUrl, draft.publicBaseUrl)}
+                </div>
+            )}
+
+            {draft?.type === 'http' && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                    {field('uploadUrl', labels.uploadUrl, draft.uploadUrl)}
+                    {field('fieldName', labels.fieldName, draft.fieldName)}
+                    {field('urlField', labels.urlField, draft.urlField)}
+                    {field('deleteUrlField', labels.deleteUrlField, draft.deleteUrlField)}
+                    <Input
+                        type="password"
+                        placeholder={`${labels.authToken}${labels.secretUnchanged}`}
+                        aria-label={labels.authToken}
+                        value={secrets.authToken ?? ''}
+                        onChange={(e) => setSecrets({ ...secrets, authToken: e.target.value })}
+                    />
+                </div>
+            )}
+
+            {draft?.type === 's3' && (
+                <ToggleSwitch
+                    checked={draft.pathStyle}
+                    onChange={(pathStyle) => update({ pathStyle })}
+                    label={labels.pathStyle}
+                />
+            )}
+            {draft && (
+                <ToggleSwitch
+                    checked={draft.deleteAfterPublish}
+                    onChange={(deleteAfterPublish) => update({ deleteAfterPublish })}
+                    label={labels.deleteAfterPublish}
+                />
+            )}
+
+            <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={isBusy}>{labels.save}</Button>
+                {draft && (
+                    <Button variant="outline" onClick={handleTest} disabled={isBusy}>
+                        {labels.test}
+                    </Button>
+                )}
+            </div>
+            {message && (
+                <p className={cn('text-sm', message.ok ? 'text-green-600' : 'text-red-500')}>{message.text}</p>
+            )}
+        </div>
+    );
+};
+
 // Toggle switch component
 const ToggleSwitch: React.FC<{
     checked: boolean;
@@ -130,7 +488,16 @@ const ToggleSwitch: React.FC<{
 
 // Main Settings component
 export const Settings: React.FC = () => {
-    const { theme, setTheme, language, setLanguage } = useAppStore();
+    const {
+        theme,
+        setTheme,
+        language,
+        setLanguage,
+        missedPostPolicy,
+        setMissedPostPolicy,
+        requireAltText,
+        setRequireAltText,
+    } = useAppStore();
     const { accounts } = useAccountStore();
     const { posts } = usePostStore();
     const { scheduledPosts } = useScheduleStore();
@@ -157,6 +524,14 @@ export const Settings: React.FC = () => {
             autoSaveDraftsDesc: '投稿作成中の内容を自動で保存します',
             confirmBeforePost: '投稿前に確認',
             confirmBeforePostDesc: '投稿を送信する前に確認ダイアログを表示します',
+            requireAltText: '代替テキストを必須にする',
+            requireAltTextDesc: '説明のない画像がある場合は投稿できないようにします',
+            missedPostPolicy: '見逃した予約投稿',
+            missedPostPolicyDesc: 'アプリ終了中に予定時刻を過ぎた投稿の扱い',
+            credentials: '認証情報の保管',
+            credentialsDesc: 'アクセストークンとアプリパスワードは暗号化して保存されます',
+            mediaHost: 'メディアホスト',
+            mediaHostDesc: 'InstagramとThreadsにローカル画像を投稿するため、画像を公開URLにアップロードします',
             data: 'データ管理',
             dataDesc: 'アプリケーションデータの管理',
             connectedAccounts: '接続済みアカウント',
@@ -183,6 +558,14 @@ export const Settings: React.FC = () => {
             autoSaveDraftsDesc: 'Automatically save content while composing posts',
             confirmBeforePost: 'Confirm before posting',
             confirmBeforePostDesc: 'Show confirmation dialog before sending posts',
+            requireAltText: 'Require alt text',
+            requireAltTextDesc: 'Block posting while any attached image has no description',
+            missedPostPolicy: 'Missed scheduled posts',
+            missedPostPolicyDesc: 'What to do with posts whose time passed while the app was closed',
+            credentials: 'Credential Storage',
+            credentialsDesc: 'Access tokens and app passwords are stored encrypted',
+            mediaHost: 'Media Host',
+            mediaHostDesc: 'Uploads local images to a public URL so they can be posted to Instagram and Threads',
             data: 'Data Management',
             dataDesc: 'Manage application data',
             connectedAccounts: 'Connected accounts',
@@ -259,9 +642,42 @@ export const Settings: React.FC = () => {
                             label={labels.confirmBeforePost}
                             description={labels.confirmBeforePostDesc}
                         />
+                        <ToggleSwitch
+                            checked={requireAltText}
+                            onChange={setRequireAltText}
+                            label={labels.requireAltText}
+                            description={labels.requireAltTextDesc}
+                        />
+                        <div>
+                            <p className="font-medium text-gray-900 dark:text-white">{labels.missedPostPolicy}</p>
+                            <p className="text-sm text-gray-500 mb-2">{labels.missedPostPolicyDesc}</p>
+                            <MissedPostPolicySelector
+                                value={missedPostPolicy}
+                                onChange={setMissedPostPolicy}
+                                language={language}
+                            />
+                        </div>
                     </div>
                 </SettingSection>
 
+                {/* Credential Vault */}
+                <SettingSection
+                    title={labels.credentials}
+                    description={labels.credentialsDesc}
+                    icon={<KeyRound size={20} className="text-orange-500" />}
+                >
+                    <CredentialVaultSettings language={language} />
+                </SettingSection>
+
+                {/* Media Host */}
+                <SettingSection
+                    title={labels.mediaHost}
+                    description={labels.mediaHostDesc}
+                    icon={<CloudUpload size={20} className="text-sky-500" />}
+                >
+                    <MediaHostSettings language={language} />
+                </SettingSection>
+
                 {/* Data Management */}
                 <SettingSection
                     title={labels.data}
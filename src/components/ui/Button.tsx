@@ -22,6 +22,8 @@ const buttonVariants = cva(
                 instagram: "bg-gradient-to-r from-[#833AB4] via-[#FD1D1D] to-[#F77737] text-white hover:opacity-90",
                 threads: "bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200",
                 tiktok: "bg-black text-white hover:bg-gray-800",
+                x: "bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200",
+                mastodon: "bg-[#6364FF] text-white hover:bg-[#563ACC]",
             },
             size: {
                 default: "h-10 px-4 py-2",
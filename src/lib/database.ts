@@ -0,0 +1,89 @@
+/**
+ * SQLite Database Access
+ *
+ * Connection to the app database through the Tauri SQL plugin.
+ * Migrations (database/schema.sql and database/migrations/) are applied
+ * by the Rust backend when the connection is first loaded.
+ */
+
+import Database from '@tauri-apps/plugin-sql';
+import { isTauri } from '@tauri-apps/api/core';
+
+export const DATABASE_URL = 'sqlite:cross-link.db';
+
+let connection: Promise<Database> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * The database only exists inside the Tauri app, not in a plain browser
+ */
+export function isDatabaseAvailable(): boolean {
+    return isTauri();
+}
+
+/**
+ * Get the shared database connection
+ */
+export function getDatabase(): Promise<Database> {
+    if (!connection) {
+        connection = Database.load(DATABASE_URL);
+    }
+    return connection;
+}
+
+/**
+ * Run a SELECT query
+ */
+export async function selectRows<T>(query: string, bindValues?: unknown[]): Promise<T[]> {
+    if (!isDatabaseAvailable()) return [];
+
+    const db = await getDatabase();
+    return db.select<T[]>(query, bindValues);
+}
+
+/**
+ * Queue a write statement
+ * Writes run one at a time in call order, so foreign keys always see
+ * their parent rows and store updates land in the order they were made.
+ * The returned promise rejects when the write fails; the queue carries on.
+ */
+export function enqueueWrite(query: string, bindValues?: unknown[]): Promise<void> {
+    if (!isDatabaseAvailable()) return Promise.resolve();
+
+    const write = writeQueue.then(async () => {
+        const db = await getDatabase();
+        await db.execute(query, bindValues);
+    });
+    writeQueue = write.catch(() => {});
+
+    return write;
+}
+
+/**
+ * Report a store's write-through that did not reach the database.
+ * The in-memory state stays as it is; the row is written again the next
+ * time the store saves it.
+ */
+export function persistWrite(write: Promise<void>, description: string): void {
+    write.catch((error) => {
+        console.error(`[Database] Failed to ${description}:`, error);
+    });
+}
+
+// Column value helpers
+
+export function toDbDate(value?: Date | string): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+export function fromDbDate(value: string | null): Date | undefined {
+    return value ? new Date(value) : undefined;
+}
+
+export function toDbJson(value: unknown): string | null {
+    return value === undefined ? null : JSON.stringify(value);
+}
+
+export function fromDbJson<T>(value: string | null): T | undefined {
+    return value ? (JSON.parse(value) as T) : undefined;
+}
@@ -10,6 +10,7 @@ import type { PlatformType } from '../types';
 export type ErrorCode =
     | 'NETWORK_ERROR'
     | 'AUTH_EXPIRED'
+    | 'AUTH_REVOKED'
     | 'AUTH_FAILED'
     | 'RATE_LIMITED'
     | 'CONTENT_TOO_LONG'
@@ -39,6 +40,10 @@ const errorMessages: Record<ErrorCode, { ja: string; en: string }> = {
         ja: '認証の有効期限が切れました。再ログインしてください。',
         en: 'Authentication expired. Please log in again.',
     },
+    AUTH_REVOKED: {
+        ja: '連携が取り消されました。アカウントを再接続してください。',
+        en: 'Access was revoked. Please reconnect the account.',
+    },
     AUTH_FAILED: {
         ja: '認証に失敗しました。資格情報を確認してください。',
         en: 'Authentication failed. Please check your credentials.',
@@ -135,6 +140,12 @@ export function parseApiError(
 
     // Error objects
     if (error instanceof Error) {
+        // SDK errors (e.g. XRPCError) carry the HTTP status
+        const status = (error as { status?: unknown }).status;
+        if (status === 401 || error.message.includes('ExpiredToken')) {
+            return createError('AUTH_EXPIRED', { platform, message: error.message });
+        }
+
         // Check for common patterns
         if (error.message.toLowerCase().includes('rate limit')) {
             return createError('RATE_LIMITED', { platform, message: error.message });
@@ -153,6 +164,14 @@ export function parseApiError(
     return createError('UNKNOWN_ERROR', { platform });
 }
 
+/**
+ * Error code for a failed publish call. AUTH_EXPIRED is kept so the caller
+ * can refresh the token and retry; anything else becomes the fallback code.
+ */
+export function getPublishErrorCode(error: unknown, fallback: string): string {
+    return parseApiError(error).code === 'AUTH_EXPIRED' ? 'AUTH_EXPIRED' : fallback;
+}
+
 /**
  * Retry helper with exponential backoff
  */
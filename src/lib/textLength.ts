@@ -0,0 +1,134 @@
+/**
+ * Platform Text Length
+ *
+ * Counts text the way each platform enforces its limit: X weights CJK
+ * characters as 2 and every URL as 23, Bluesky counts graphemes, Mastodon
+ * counts graphemes with every URL as 23 and mentions without their domain,
+ * and the Meta platforms count UTF-16 code units.
+ */
+
+import type { PlatformType } from '../types';
+
+// X shortens every link to a t.co URL of this length
+const X_URL_LENGTH = 23;
+
+// Code point ranges X counts with weight 1; everything else counts 2
+// (twitter-text v3 configuration)
+const X_LIGHT_RANGES: [number, number][] = [
+    [0x0000, 0x10ff],
+    [0x2000, 0x200d],
+    [0x2010, 0x201f],
+    [0x2032, 0x2037],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+// Mastodon counts every link as this many characters
+const MASTODON_URL_LENGTH = 23;
+
+// @user@domain mentions; only the @user part counts on Mastodon
+const MASTODON_MENTION_PATTERN = /(^|[^\w@])(@\w+)@[\w.-]+\w/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+let graphemeSegmenter: Intl.Segmenter | null | undefined;
+
+function getSegmenter(): Intl.Segmenter | null {
+    if (graphemeSegmenter === undefined) {
+        graphemeSegmenter = typeof Intl.Segmenter === 'function'
+            ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+            : null;
+    }
+    return graphemeSegmenter;
+}
+
+/**
+ * Split text into user-perceived characters; falls back to code points
+ * where Intl.Segmenter is unavailable
+ */
+export function splitGraphemes(text: string): string[] {
+    const segmenter = getSegmenter();
+    if (!segmenter) return [...text];
+    return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+export function countGraphemes(text: string): number {
+    return splitGraphemes(text).length;
+}
+
+function xWeight(grapheme: string): number {
+    // An emoji sequence counts as 2 however many code points it has
+    if (EMOJI_PATTERN.test(grapheme)) return 2;
+
+    let weight = 0;
+    for (const char of grapheme) {
+        const code = char.codePointAt(0) ?? 0;
+        weight += X_LIGHT_RANGES.some(([start, end]) => code >= start && code <= end) ? 1 : 2;
+    }
+    return weight;
+}
+
+/**
+ * X's weighted length: URLs count 23, CJK and emoji count 2
+ */
+export function countXWeightedLength(text: string): number {
+    let length = 0;
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+        const before = text.slice(lastIndex, match.index);
+        length += splitGraphemes(before).reduce((sum, g) => sum + xWeight(g), 0) + X_URL_LENGTH;
+        lastIndex = (match.index ?? 0) + match[0].length;
+    }
+
+    return length + splitGraphemes(text.slice(lastIndex)).reduce((sum, g) => sum + xWeight(g), 0);
+}
+
+/**
+ * Mastodon's length: graphemes, URLs count 23, remote mentions drop the domain
+ */
+export function countMastodonLength(text: string): number {
+    const countable = text
+        .replace(URL_PATTERN, 'x'.repeat(MASTODON_URL_LENGTH))
+        .replace(MASTODON_MENTION_PATTERN, '$1$2');
+    return countGraphemes(countable);
+}
+
+/**
+ * Length of text as the platform counts it against maxTextLength
+ */
+export function getTextLength(text: string, platform: PlatformType): number {
+    switch (platform) {
+        case 'x':
+            return countXWeightedLength(text);
+        case 'bluesky':
+            return countGraphemes(text);
+        case 'mastodon':
+            return countMastodonLength(text);
+        case 'instagram':
+        case 'threads':
+            return text.length;
+        default:
+            return [...text].length;
+    }
+}
+
+/**
+ * Cut text to fit maxLength as the platform counts it, ending with an ellipsis
+ */
+export function truncateToLength(text: string, platform: PlatformType, maxLength: number): string {
+    if (getTextLength(text, platform) <= maxLength) return text;
+
+    // Binary search for the longest grapheme prefix that fits with the ellipsis
+    const graphemes = splitGraphemes(text);
+    let low = 0;
+    let high = graphemes.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (getTextLength(graphemes.slice(0, mid).join('') + '...', platform) <= maxLength) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return graphemes.slice(0, low).join('') + '...';
+}
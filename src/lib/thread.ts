@@ -0,0 +1,104 @@
+/**
+ * Thread Splitting Utilities
+ *
+ * Splits over-limit text into a numbered reply chain for platforms that
+ * support threads, breaking at sentence boundaries where possible.
+ */
+
+import { PLATFORM_CONFIGS, type PlatformType } from '../types';
+import { getTextLength, splitGraphemes } from './textLength';
+
+// Platforms whose adapters can publish a reply chain
+export const THREAD_PLATFORMS: PlatformType[] = ['x', 'bluesky', 'threads'];
+
+export function supportsThreads(platform: PlatformType): boolean {
+    return THREAD_PLATFORMS.includes(platform);
+}
+
+// Measures text as the target platform counts it
+type MeasureText = (text: string) => number;
+
+const countCodePoints: MeasureText = (text) => [...text].length;
+
+// Sentences keep their terminator and any following whitespace. Every
+// position can start a match, so the sentences join back to the input
+// unchanged, including leading terminator runs such as "..." or "!!!"
+function splitSentences(text: string): string[] {
+    return text.match(/[^。．！？!?.\n]*(?:[。．！？!?.]+\s*|\n+)|[^。．！？!?.\n]+$/g) ?? [text];
+}
+
+// Break a single over-long sentence at grapheme boundaries, preferring the
+// last space before the limit
+function splitLongSentence(sentence: string, budget: number, measure: MeasureText): string[] {
+    const graphemes = splitGraphemes(sentence);
+    const pieces: string[] = [];
+
+    while (graphemes.length > 0) {
+        let end = 0;
+        while (end < graphemes.length && measure(graphemes.slice(0, end + 1).join('')) <= budget) {
+            end++;
+        }
+        if (end === graphemes.length) break;
+
+        const space = graphemes.lastIndexOf(' ', end - 1);
+        const cut = space >= end / 2 ? space + 1 : Math.max(end, 1);
+        pieces.push(graphemes.splice(0, cut).join(''));
+    }
+
+    if (graphemes.length > 0) pieces.push(graphemes.join(''));
+    return pieces;
+}
+
+function packSentences(text: string, budget: number, measure: MeasureText): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const sentence of splitSentences(text)) {
+        if (measure(current + sentence) <= budget) {
+            current += sentence;
+            continue;
+        }
+
+        if (current.trim()) chunks.push(current.trim());
+        current = '';
+
+        if (measure(sentence) <= budget) {
+            current = sentence;
+        } else {
+            const pieces = splitLongSentence(sentence, budget, measure);
+            current = pieces.pop() ?? '';
+            chunks.push(...pieces.map((p) => p.trim()).filter(Boolean));
+        }
+    }
+
+    if (current.trim()) chunks.push(current.trim());
+    return chunks;
+}
+
+/**
+ * Split text into numbered posts no longer than maxLength as measured.
+ * Text that already fits is returned as a single unnumbered part.
+ */
+export function splitIntoThread(text: string, maxLength: number, measure: MeasureText = countCodePoints): string[] {
+    if (measure(text) <= maxLength) return [text];
+
+    // The " (i/n)" suffix width depends on the part count, so re-split until stable
+    let count = 2;
+    for (;;) {
+        const suffixLength = measure(` (${count}/${count})`);
+        const chunks = packSentences(text, maxLength - suffixLength, measure);
+        if (String(chunks.length).length <= String(count).length) {
+            return chunks.map((chunk, i) => `${chunk} (${i + 1}/${chunks.length})`);
+        }
+        count = chunks.length;
+    }
+}
+
+/**
+ * Thread parts a platform would publish for the text, or a single part
+ * when threading is off, unsupported or unnecessary
+ */
+export function getThreadParts(text: string, platform: PlatformType, autoThread: boolean): string[] {
+    if (!autoThread || !supportsThreads(platform)) return [text];
+    return splitIntoThread(text, PLATFORM_CONFIGS[platform].maxTextLength, (t) => getTextLength(t, platform));
+}
@@ -0,0 +1,47 @@
+/**
+ * Platform Variant Utilities
+ *
+ * Resolves the content a single platform receives from a shared post and
+ * its per-platform overrides.
+ */
+
+import type { PlatformType, PlatformVariant, PlatformVariants } from '../types';
+
+export interface VariantSource {
+    content: string;
+    title?: string;
+    hashtags?: string[];
+    mediaPaths?: string[];
+    variants?: PlatformVariants;
+}
+
+export interface ResolvedVariant {
+    content: string;
+    title?: string;
+    hashtags: string[];
+    mediaPaths: string[];
+    options?: Record<string, unknown>;
+}
+
+/**
+ * Content for one platform: its override where set, the shared value otherwise
+ */
+export function resolveVariant(source: VariantSource, platform: PlatformType): ResolvedVariant {
+    const variant = source.variants?.[platform];
+
+    return {
+        content: variant?.content ?? source.content,
+        title: variant?.title ?? source.title,
+        hashtags: variant?.hashtags ?? source.hashtags ?? [],
+        mediaPaths: variant?.mediaPaths ?? source.mediaPaths ?? [],
+        options: variant?.options,
+    };
+}
+
+/**
+ * Whether a variant overrides anything
+ */
+export function hasVariantOverrides(variant?: PlatformVariant): boolean {
+    if (!variant) return false;
+    return Object.values(variant).some((value) => value !== undefined);
+}
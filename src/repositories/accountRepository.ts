@@ -0,0 +1,76 @@
+import { enqueueWrite, fromDbDate, selectRows, toDbDate } from '../lib/database';
+import type { Account, PlatformType } from '../types';
+
+interface AccountRow {
+    id: string;
+    platform: PlatformType;
+    platform_user_id: string | null;
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+    token_expires_at: string | null;
+    is_active: number | boolean;
+    last_sync_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+function toAccount(row: AccountRow): Account {
+    return {
+        id: row.id,
+        platform: row.platform,
+        platformUserId: row.platform_user_id ?? undefined,
+        username: row.username,
+        displayName: row.display_name ?? undefined,
+        avatarUrl: row.avatar_url ?? undefined,
+        isActive: Boolean(row.is_active),
+        tokenExpiresAt: fromDbDate(row.token_expires_at),
+        lastSyncAt: fromDbDate(row.last_sync_at),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+// Repository for the accounts table
+export class AccountRepository {
+    async getAll(): Promise<Account[]> {
+        const rows = await selectRows<AccountRow>('SELECT * FROM accounts ORDER BY created_at');
+        return rows.map(toAccount);
+    }
+
+    save(account: Account): Promise<void> {
+        // Secrets are not kept in this table; the credentials column stays empty
+        return enqueueWrite(
+            `INSERT INTO accounts (id, platform, platform_user_id, username, display_name, avatar_url, credentials, token_expires_at, is_active, last_sync_at, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, '{}', $7, $8, $9, $10, $11)
+             ON CONFLICT(id) DO UPDATE SET
+                platform_user_id = excluded.platform_user_id,
+                username = excluded.username,
+                display_name = excluded.display_name,
+                avatar_url = excluded.avatar_url,
+                token_expires_at = excluded.token_expires_at,
+                is_active = excluded.is_active,
+                last_sync_at = excluded.last_sync_at,
+                updated_at = excluded.updated_at`,
+            [
+                account.id,
+                account.platform,
+                account.platformUserId ?? null,
+                account.username,
+                account.displayName ?? null,
+                account.avatarUrl ?? null,
+                toDbDate(account.tokenExpiresAt),
+                account.isActive ? 1 : 0,
+                toDbDate(account.lastSyncAt),
+                toDbDate(account.createdAt),
+                toDbDate(account.updatedAt),
+            ]
+        );
+    }
+
+    delete(id: string): Promise<void> {
+        return enqueueWrite('DELETE FROM accounts WHERE id = $1', [id]);
+    }
+}
+
+export const accountRepository = new AccountRepository();
@@ -0,0 +1,5 @@
+export { AccountRepository, accountRepository } from './accountRepository';
+export { PostRepository, postRepository } from './postRepository';
+export { ScheduleRepository, scheduleRepository } from './scheduleRepository';
+export { TemplateRepository, templateRepository } from './templateRepository';
+export { UploadSessionRepository, uploadSessionRepository } from './uploadSessionRepository';
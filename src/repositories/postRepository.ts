@@ -0,0 +1,231 @@
+import {
+    enqueueWrite,
+    fromDbDate,
+    fromDbJson,
+    selectRows,
+    toDbDate,
+    toDbJson,
+} from '../lib/database';
+import type { ContentType, CrossPostTarget, MediaDerivative, MediaFile, PlatformVariants, Post, PostStatus } from '../types';
+
+interface PostRow {
+    id: string;
+    title: string | null;
+    content: string;
+    content_type: ContentType;
+    media_paths: string | null;
+    hashtags: string | null;
+    variants: string | null;
+    auto_thread: number | null;
+    status: PostStatus;
+    scheduled_at: string | null;
+    posted_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+interface CrossPostTargetRow {
+    id: string;
+    post_id: string;
+    account_id: string;
+    platform_post_id: string | null;
+    platform_post_url: string | null;
+    status: CrossPostTarget['status'];
+    error_code: string | null;
+    error_message: string | null;
+    retry_count: number;
+    posted_at: string | null;
+    checkpoint: string | null;
+}
+
+interface MediaFileRow {
+    id: string;
+    post_id: string;
+    file_path: string;
+    file_name: string;
+    file_type: string;
+    file_size: number | null;
+    width: number | null;
+    height: number | null;
+    duration: number | null;
+    thumbnail_path: string | null;
+    sort_order: number;
+    derivatives: string | null;
+    alt_text: string | null;
+}
+
+function toPost(row: PostRow): Post {
+    return {
+        id: row.id,
+        title: row.title ?? undefined,
+        content: row.content,
+        contentType: row.content_type,
+        mediaPaths: fromDbJson<string[]>(row.media_paths),
+        hashtags: fromDbJson<string[]>(row.hashtags),
+        variants: fromDbJson<PlatformVariants>(row.variants),
+        autoThread: Boolean(row.auto_thread),
+        status: row.status,
+        scheduledAt: fromDbDate(row.scheduled_at),
+        postedAt: fromDbDate(row.posted_at),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+function toMediaFile(row: MediaFileRow): MediaFile {
+    return {
+        id: row.id,
+        postId: row.post_id,
+        filePath: row.file_path,
+        fileName: row.file_name,
+        fileType: row.file_type,
+        fileSize: row.file_size ?? undefined,
+        width: row.width ?? undefined,
+        height: row.height ?? undefined,
+        duration: row.duration ?? undefined,
+        thumbnailPath: row.thumbnail_path ?? undefined,
+        altText: row.alt_text ?? undefined,
+        sortOrder: row.sort_order,
+        derivatives: fromDbJson<MediaDerivative[]>(row.derivatives),
+    };
+}
+
+function toCrossPostTarget(row: CrossPostTargetRow): CrossPostTarget {
+    return {
+        id: row.id,
+        postId: row.post_id,
+        accountId: row.account_id,
+        platformPostId: row.platform_post_id ?? undefined,
+        platformPostUrl: row.platform_post_url ?? undefined,
+        status: row.status,
+        errorCode: row.error_code ?? undefined,
+        errorMessage: row.error_message ?? undefined,
+        retryCount: row.retry_count,
+        postedAt: fromDbDate(row.posted_at),
+        checkpoint: fromDbJson<string[]>(row.checkpoint),
+    };
+}
+
+// Repository for the posts and cross_post_targets tables
+export class PostRepository {
+    async getAll(): Promise<Post[]> {
+        const [rows, mediaRows] = await Promise.all([
+            selectRows<PostRow>('SELECT * FROM posts ORDER BY created_at'),
+            selectRows<MediaFileRow>('SELECT * FROM media_files ORDER BY post_id, sort_order'),
+        ]);
+
+        const mediaByPost = new Map<string, MediaFile[]>();
+        for (const mediaRow of mediaRows) {
+            const media = mediaByPost.get(mediaRow.post_id) ?? [];
+            media.push(toMediaFile(mediaRow));
+            mediaByPost.set(mediaRow.post_id, media);
+        }
+
+        return rows.map((row) => ({ ...toPost(row), media: mediaByPost.get(row.id) }));
+    }
+
+    async getAllTargets(): Promise<CrossPostTarget[]> {
+        const rows = await selectRows<CrossPostTargetRow>('SELECT * FROM cross_post_targets ORDER BY created_at');
+        return rows.map(toCrossPostTarget);
+    }
+
+    save(post: Post): Promise<void> {
+        return enqueueWrite(
+            `INSERT INTO posts (id, title, content, content_type, media_paths, hashtags, variants, auto_thread, status, scheduled_at, posted_at, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+             ON CONFLICT(id) DO UPDATE SET
+                title = excluded.title,
+                content = excluded.content,
+                content_type = excluded.content_type,
+                media_paths = excluded.media_paths,
+                hashtags = excluded.hashtags,
+                variants = excluded.variants,
+                auto_thread = excluded.auto_thread,
+                status = excluded.status,
+                scheduled_at = excluded.scheduled_at,
+                posted_at = excluded.posted_at,
+                updated_at = excluded.updated_at`,
+            [
+                post.id,
+                post.title ?? null,
+                post.content,
+                post.contentType,
+                toDbJson(post.mediaPaths),
+                toDbJson(post.hashtags),
+                toDbJson(post.variants),
+                post.autoThread ? 1 : 0,
+                post.status,
+                toDbDate(post.scheduledAt),
+                toDbDate(post.postedAt),
+                toDbDate(post.createdAt),
+                toDbDate(post.updatedAt),
+            ]
+        );
+    }
+
+    /**
+     * Replace a post's media_files rows with the given files
+     */
+    saveMedia(postId: string, media: MediaFile[]): Promise<void> {
+        const writes = [enqueueWrite('DELETE FROM media_files WHERE post_id = $1', [postId])];
+        for (const file of media) {
+            writes.push(enqueueWrite(
+                `INSERT INTO media_files (id, post_id, file_path, file_name, file_type, file_size, width, height, duration, thumbnail_path, sort_order, derivatives, alt_text)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+                [
+                    file.id,
+                    postId,
+                    file.filePath,
+                    file.fileName,
+                    file.fileType,
+                    file.fileSize ?? null,
+                    file.width ?? null,
+                    file.height ?? null,
+                    file.duration ?? null,
+                    file.thumbnailPath ?? null,
+                    file.sortOrder,
+                    toDbJson(file.derivatives),
+                    file.altText ?? null,
+                ]
+            ));
+        }
+        return Promise.all(writes).then(() => undefined);
+    }
+
+    delete(id: string): Promise<void> {
+        // cross_post_targets and media_files rows are removed by ON DELETE CASCADE
+        return enqueueWrite('DELETE FROM posts WHERE id = $1', [id]);
+    }
+
+    saveTarget(target: CrossPostTarget): Promise<void> {
+        return enqueueWrite(
+            `INSERT INTO cross_post_targets (id, post_id, account_id, platform_post_id, platform_post_url, status, error_code, error_message, retry_count, posted_at, checkpoint, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
+             ON CONFLICT(id) DO UPDATE SET
+                platform_post_id = excluded.platform_post_id,
+                platform_post_url = excluded.platform_post_url,
+                status = excluded.status,
+                error_code = excluded.error_code,
+                error_message = excluded.error_message,
+                retry_count = excluded.retry_count,
+                posted_at = excluded.posted_at,
+                checkpoint = excluded.checkpoint,
+                updated_at = CURRENT_TIMESTAMP`,
+            [
+                target.id,
+                target.postId,
+                target.accountId,
+                target.platformPostId ?? null,
+                target.platformPostUrl ?? null,
+                target.status,
+                target.errorCode ?? null,
+                target.errorMessage ?? null,
+                target.retryCount,
+                toDbDate(target.postedAt),
+                toDbJson(target.checkpoint),
+            ]
+        );
+    }
+}
+
+export const postRepository = new PostRepository();
@@ -0,0 +1,67 @@
+import { enqueueWrite, selectRows, toDbDate } from '../lib/database';
+import type { ScheduledPost, ScheduledPostStatus } from '../stores/scheduleStore';
+
+interface ScheduledJobRow {
+    id: string;
+    post_id: string;
+    scheduled_at: string;
+    status: ScheduledPostStatus;
+    retry_count: number;
+    max_retries: number;
+    processing_polls: number | null;
+    last_error: string | null;
+    created_at: string;
+}
+
+function toScheduledPost(row: ScheduledJobRow): ScheduledPost {
+    return {
+        id: row.id,
+        postId: row.post_id,
+        scheduledAt: new Date(row.scheduled_at),
+        createdAt: new Date(row.created_at),
+        status: row.status,
+        retryCount: row.retry_count,
+        maxRetries: row.max_retries,
+        processingPolls: row.processing_polls ?? 0,
+        lastError: row.last_error ?? undefined,
+    };
+}
+
+// Repository for the scheduled_jobs table
+export class ScheduleRepository {
+    async getAll(): Promise<ScheduledPost[]> {
+        const rows = await selectRows<ScheduledJobRow>('SELECT * FROM scheduled_jobs ORDER BY scheduled_at');
+        return rows.map(toScheduledPost);
+    }
+
+    save(job: ScheduledPost): Promise<void> {
+        return enqueueWrite(
+            `INSERT INTO scheduled_jobs (id, post_id, scheduled_at, status, retry_count, max_retries, processing_polls, last_error, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             ON CONFLICT(id) DO UPDATE SET
+                scheduled_at = excluded.scheduled_at,
+                status = excluded.status,
+                retry_count = excluded.retry_count,
+                max_retries = excluded.max_retries,
+                processing_polls = excluded.processing_polls,
+                last_error = excluded.last_error`,
+            [
+                job.id,
+                job.postId,
+                toDbDate(job.scheduledAt),
+                job.status,
+                job.retryCount,
+                job.maxRetries,
+                job.processingPolls,
+                job.lastError ?? null,
+                toDbDate(job.createdAt),
+            ]
+        );
+    }
+
+    delete(id: string): Promise<void> {
+        return enqueueWrite('DELETE FROM scheduled_jobs WHERE id = $1', [id]);
+    }
+}
+
+export const scheduleRepository = new ScheduleRepository();
@@ -0,0 +1,66 @@
+import { enqueueWrite, fromDbJson, selectRows, toDbJson } from '../lib/database';
+import type { PlatformType, PostTemplate } from '../types';
+
+interface TemplateRow {
+    id: string;
+    name: string;
+    description: string | null;
+    content: string;
+    hashtags: string | null;
+    target_platforms: string | null;
+    is_favorite: number | boolean;
+    use_count: number;
+}
+
+function toTemplate(row: TemplateRow): PostTemplate {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description ?? undefined,
+        content: row.content,
+        hashtags: fromDbJson<string[]>(row.hashtags),
+        targetPlatforms: fromDbJson<PlatformType[]>(row.target_platforms),
+        isFavorite: Boolean(row.is_favorite),
+        useCount: row.use_count,
+    };
+}
+
+// Repository for the templates table
+export class TemplateRepository {
+    async getAll(): Promise<PostTemplate[]> {
+        const rows = await selectRows<TemplateRow>('SELECT * FROM templates ORDER BY created_at');
+        return rows.map(toTemplate);
+    }
+
+    save(template: PostTemplate): Promise<void> {
+        return enqueueWrite(
+            `INSERT INTO templates (id, name, description, content, hashtags, target_platforms, is_favorite, use_count, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+             ON CONFLICT(id) DO UPDATE SET
+                name = excluded.name,
+                description = excluded.description,
+                content = excluded.content,
+                hashtags = excluded.hashtags,
+                target_platforms = excluded.target_platforms,
+                is_favorite = excluded.is_favorite,
+                use_count = excluded.use_count,
+                updated_at = CURRENT_TIMESTAMP`,
+            [
+                template.id,
+                template.name,
+                template.description ?? null,
+                template.content,
+                toDbJson(template.hashtags),
+                toDbJson(template.targetPlatforms),
+                template.isFavorite ? 1 : 0,
+                template.useCount,
+            ]
+        );
+    }
+
+    delete(id: string): Promise<void> {
+        return enqueueWrite('DELETE FROM templates WHERE id = $1', [id]);
+    }
+}
+
+export const templateRepository = new TemplateRepository();
@@ -0,0 +1,56 @@
+import { enqueueWrite, selectRows, toDbDate } from '../lib/database';
+import type { PlatformType, UploadSession } from '../types';
+
+interface UploadSessionRow {
+    id: string;
+    platform: PlatformType;
+    upload_url: string;
+    file_path: string;
+    file_size: number;
+    created_at: string;
+}
+
+function toUploadSession(row: UploadSessionRow): UploadSession {
+    return {
+        id: row.id,
+        platform: row.platform,
+        uploadUrl: row.upload_url,
+        filePath: row.file_path,
+        fileSize: row.file_size,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+// Repository for the upload_sessions table
+export class UploadSessionRepository {
+    async getAll(): Promise<UploadSession[]> {
+        const rows = await selectRows<UploadSessionRow>('SELECT * FROM upload_sessions');
+        return rows.map(toUploadSession);
+    }
+
+    save(session: UploadSession): Promise<void> {
+        return enqueueWrite(
+            `INSERT INTO upload_sessions (id, platform, upload_url, file_path, file_size, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT(id) DO UPDATE SET
+                upload_url = excluded.upload_url,
+                file_path = excluded.file_path,
+                file_size = excluded.file_size,
+                created_at = excluded.created_at`,
+            [
+                session.id,
+                session.platform,
+                session.uploadUrl,
+                session.filePath,
+                session.fileSize,
+                toDbDate(session.createdAt),
+            ]
+        );
+    }
+
+    delete(id: string): Promise<void> {
+        return enqueueWrite('DELETE FROM upload_sessions WHERE id = $1', [id]);
+    }
+}
+
+export const uploadSessionRepository = new UploadSessionRepository();
@@ -1,20 +1,248 @@
-import { BskyAgent, RichText } from '@atproto/api';
-import type { AuthResult, PostContent, PostResult } from '../types';
+import {
+    type $Typed,
+    AppBskyEmbedExternal,
+    AppBskyEmbedImages,
+    AppBskyEmbedRecord,
+    AppBskyEmbedVideo,
+    AppBskyFeedPost,
+    BlobRef,
+    BskyAgent,
+    RichText,
+} from '@atproto/api';
+import type {
+    AccountCredentials,
+    AuthResult,
+    MediaFile,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getPublishErrorCode } from '../lib/errors';
+import { countGraphemes } from '../lib/textLength';
+import { mediaService } from './media';
+
+const DEFAULT_SERVICE_URL = 'https://bsky.social';
+const PLC_DIRECTORY_URL = 'https://plc.directory';
+const PUBLIC_API_URL = 'https://public.api.bsky.app';
+const CARD_EXTRACTOR_URL = 'https://cardyb.bsky.app/v1/extract';
+const VIDEO_SERVICE_URL = 'https://video.bsky.app';
+const MAX_THUMB_SIZE = 1_000_000;
+const MAX_VIDEO_SIZE = 100 * 1024 * 1024;
+const VIDEO_POLL_INTERVAL_MS = 2000;
+const VIDEO_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Bluesky post options, stored in the Bluesky variant
+export interface BlueskyPostOptions {
+    // Attach a card for the first link when there is no media (default on)
+    linkCard?: boolean;
+    // bsky.app post URL or at:// URI to quote
+    quoteUrl?: string;
+    // bsky.app post URL or at:// URI to reply to
+    replyToUrl?: string;
+}
+
+interface LinkCardMetadata {
+    url?: string;
+    title?: string;
+    description?: string;
+    image?: string;
+    error?: string;
+}
+
+type BlueskyMediaEmbed =
+    | $Typed<AppBskyEmbedImages.Main>
+    | $Typed<AppBskyEmbedVideo.Main>
+    | $Typed<AppBskyEmbedExternal.Main>;
+
+interface DidDocument {
+    id: string;
+    service?: { id: string; type: string; serviceEndpoint: string }[];
+}
+
+function getPostOptions(content: PostContent): BlueskyPostOptions {
+    return (content.platformSpecific || {}) as BlueskyPostOptions;
+}
 
 // Bluesky service for handling authentication and posting
-export class BlueskyService {
+export class BlueskyService implements PlatformAdapter {
+    readonly platform = 'bluesky' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: true,
+        images: true,
+        video: true,
+        requiresMedia: false,
+        delete: true,
+    };
+
     private agent: BskyAgent;
+    // Unauthenticated client for video job status
+    private videoAgent = new BskyAgent({ service: VIDEO_SERVICE_URL });
     private session: { did: string; handle: string; accessJwt: string; refreshJwt: string } | null = null;
 
     constructor() {
-        this.agent = new BskyAgent({ service: 'https://bsky.social' });
+        this.agent = new BskyAgent({ service: DEFAULT_SERVICE_URL });
     }
 
     /**
-     * Authenticate with Bluesky using App Password
+     * Service URL the current agent talks to
      */
-    async authenticate(handle: string, appPassword: string): Promise<AuthResult> {
+    getServiceUrl(): string {
+        return this.agent.serviceUrl.origin;
+    }
+
+    /**
+     * Point the agent at another service, dropping the current session
+     */
+    private useService(serviceUrl: string): void {
+        const origin = new URL(/^https?:\/\//.test(serviceUrl) ? serviceUrl : `https://${serviceUrl}`).origin;
+        if (origin === this.getServiceUrl()) return;
+
+        this.agent = new BskyAgent({ service: origin });
+        this.session = null;
+    }
+
+    /**
+     * Find the PDS hosting a handle or DID through its DID document.
+     * Returns null when the identifier cannot be resolved (e.g. an email).
+     */
+    async resolveService(identifier: string): Promise<string | null> {
+        const id = identifier.trim().replace(/^@/, '');
+        if (!id || id.includes('@')) return null;
+
         try {
+            const did = id.startsWith('did:') ? id : await this.resolveHandle(id);
+            if (!did) return null;
+
+            const doc = await this.fetchDidDocument(did);
+            const pds = doc?.service?.find((service) =>
+                service.id === '#atproto_pds' || service.id === `${did}#atproto_pds`
+            );
+            return pds?.serviceEndpoint ?? null;
+        } catch (error) {
+            console.warn('[BlueskyService] Could not resolve PDS:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Resolve a handle to its DID: the handle's own well-known file first,
+     * then the public AppView, which also checks the DNS TXT record
+     */
+    private async resolveHandle(handle: string): Promise<string | null> {
+        try {
+            const response = await fetch(`https://${handle}/.well-known/atproto-did`);
+            if (response.ok) {
+                const did = (await response.text()).trim();
+                if (did.startsWith('did:')) return did;
+            }
+        } catch {
+            // Not served over HTTPS (or blocked); fall through to the AppView
+        }
+
+        const response = await fetch(
+            `${PUBLIC_API_URL}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`
+        );
+        if (!response.ok) return null;
+        const { did } = await response.json() as { did?: string };
+        return did ?? null;
+    }
+
+    private async fetchDidDocument(did: string): Promise<DidDocument | null> {
+        let url: string;
+        if (did.startsWith('did:plc:')) {
+            url = `${PLC_DIRECTORY_URL}/${did}`;
+        } else if (did.startsWith('did:web:')) {
+            url = `https://${decodeURIComponent(did.slice('did:web:'.length))}/.well-known/did.json`;
+        } else {
+            return null;
+        }
+
+        const response = await fetch(url);
+        return response.ok ? await response.json() as DidDocument : null;
+    }
+
+    /**
+     * Authenticate from stored credentials (session tokens or App Password)
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        const { accessToken, refreshToken, userId, handle, appPassword, serviceUrl } = credentials;
+        this.useService(serviceUrl || DEFAULT_SERVICE_URL);
+
+        if (accessToken && refreshToken && userId && handle) {
+            const resumed = await this.resumeSession(accessToken, refreshToken, userId, handle);
+            if (resumed && this.session) {
+                return {
+                    success: true,
+                    accessToken: this.session.accessJwt,
+                    refreshToken: this.session.refreshJwt,
+                    userId: this.session.did,
+                    username: this.session.handle,
+                    serviceUrl: this.getServiceUrl(),
+                };
+            }
+        }
+
+        if (handle && appPassword) {
+            return this.login(handle, appPassword, serviceUrl);
+        }
+
+        return {
+            success: false,
+            error: 'Missing handle or App Password',
+        };
+    }
+
+    /**
+     * Refresh the session tokens
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!this.session) {
+            return this.authenticate(credentials);
+        }
+
+        try {
+            await this.agent.sessionManager.refreshSession();
+            const session = this.agent.session;
+            if (!session) {
+                throw new Error('Session refresh failed');
+            }
+
+            this.session = {
+                did: session.did,
+                handle: session.handle,
+                accessJwt: session.accessJwt,
+                refreshJwt: session.refreshJwt,
+            };
+
+            return {
+                success: true,
+                accessToken: session.accessJwt,
+                refreshToken: session.refreshJwt,
+                userId: session.did,
+                username: session.handle,
+                serviceUrl: this.getServiceUrl(),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Session refresh failed',
+            };
+        }
+    }
+
+    /**
+     * Log in to Bluesky using App Password. Without a service URL the PDS
+     * is discovered from the handle, falling back to bsky.social.
+     */
+    async login(handle: string, appPassword: string, serviceUrl?: string): Promise<AuthResult> {
+        try {
+            this.useService(serviceUrl?.trim() || await this.resolveService(handle) || DEFAULT_SERVICE_URL);
+            handle = handle.trim().replace(/^@/, '');
+
             const response = await this.agent.login({
                 identifier: handle,
                 password: appPassword,
@@ -35,6 +263,7 @@ export class BlueskyService {
                     userId: response.data.did,
                     username: response.data.handle,
                     displayName: response.data.handle,
+                    serviceUrl: this.getServiceUrl(),
                 };
             }
 
@@ -70,9 +299,13 @@ export class BlueskyService {
     }
 
     /**
-     * Create a post on Bluesky
+     * Create a post on Bluesky, optionally as a reply within a thread
      */
-    async createPost(content: PostContent): Promise<PostResult> {
+    async createPost(
+        content: PostContent,
+        reply?: AppBskyFeedPost.ReplyRef,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<PostResult> {
         if (!this.session) {
             return {
                 success: false,
@@ -82,69 +315,292 @@ export class BlueskyService {
         }
 
         try {
-            // Create rich text for link/mention detection
-            const rt = new RichText({ text: content.text });
-            await rt.detectFacets(this.agent);
-
-            // Prepare post record
-            const postRecord: {
-                $type: 'app.bsky.feed.post';
-                text: string;
-                facets?: typeof rt.facets;
-                createdAt: string;
-                embed?: unknown;
-            } = {
-                $type: 'app.bsky.feed.post',
-                text: rt.text,
-                facets: rt.facets,
-                createdAt: new Date().toISOString(),
+            const { uri } = await this.writePost(content, reply ?? await this.resolveReplyTarget(content), onProgress);
+            return this.toPostResult(uri);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to create post',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
             };
+        }
+    }
 
-            // Upload images if present
-            if (content.media && content.media.length > 0) {
-                const images = await Promise.all(
-                    content.media.slice(0, 4).map(async (media) => {
-                        const blob = await this.uploadBlob(media.filePath, media.fileType);
-                        return {
-                            alt: media.fileName || '',
-                            image: blob,
-                        };
-                    })
-                );
-
-                postRecord.embed = {
-                    $type: 'app.bsky.embed.images',
-                    images,
-                };
+    /**
+     * Create a thread: the first part carries the media, every later part
+     * replies to the previous one under the same root. Parts listed in
+     * postedUris were published by an earlier attempt and are skipped;
+     * on failure the URIs posted so far come back as the checkpoint.
+     */
+    async createThread(
+        content: PostContent,
+        parts: string[],
+        onProgress?: PublishOptions['onProgress'],
+        postedUris: string[] = []
+    ): Promise<PostResult> {
+        if (!this.session) {
+            return {
+                success: false,
+                error: 'Not authenticated. Please login first.',
+                errorCode: 'NOT_AUTHENTICATED',
+            };
+        }
+
+        const posted = [...postedUris];
+
+        try {
+            let root: { uri: string; cid: string };
+            let parent: { uri: string; cid: string };
+            if (posted.length === 0) {
+                // A thread posted as a reply stays under the replied-to post's root
+                const target = await this.resolveReplyTarget(content);
+                const head = await this.writePost({ ...content, text: parts[0] }, target, onProgress);
+                posted.push(head.uri);
+                root = target?.root ?? head;
+                parent = head;
+            } else {
+                const head = await this.resolvePost(posted[0]);
+                const last = await this.resolvePost(posted[posted.length - 1]);
+                root = head.reply?.root ?? { uri: head.uri, cid: head.cid };
+                parent = { uri: last.uri, cid: last.cid };
             }
 
-            const response = await this.agent.post(postRecord);
+            const { linkCard } = getPostOptions(content);
+            for (const text of parts.slice(posted.length)) {
+                parent = await this.writePost({ text, platformSpecific: { linkCard } }, { root, parent });
+                posted.push(parent.uri);
+            }
 
-            // Extract post ID from URI
-            const postId = response.uri.split('/').pop() || '';
-            const postUrl = `https://bsky.app/profile/${this.session.handle}/post/${postId}`;
+            return this.toPostResult(posted[0]);
+        } catch (error) {
+            const first = posted.length > 0 ? this.toPostResult(posted[0]) : null;
+            return {
+                success: false,
+                platformPostId: first?.platformPostId,
+                platformPostUrl: first?.platformPostUrl,
+                error: error instanceof Error ? error.message : 'Failed to create thread',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
+                checkpoint: posted.length > 0 ? posted : undefined,
+            };
+        }
+    }
 
+    /**
+     * Write a post record and return its strong reference
+     */
+    private async writePost(
+        content: PostContent,
+        reply?: AppBskyFeedPost.ReplyRef,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<{ uri: string; cid: string }> {
+        // Create rich text for link/mention detection
+        const rt = new RichText({ text: content.text });
+        await rt.detectFacets(this.agent);
+
+        // Prepare post record
+        const postRecord: {
+            $type: 'app.bsky.feed.post';
+            text: string;
+            facets?: typeof rt.facets;
+            createdAt: string;
+            embed?: AppBskyFeedPost.Record['embed'];
+            reply?: AppBskyFeedPost.ReplyRef;
+        } = {
+            $type: 'app.bsky.feed.post',
+            text: rt.text,
+            facets: rt.facets,
+            createdAt: new Date().toISOString(),
+            reply,
+        };
+
+        const options = getPostOptions(content);
+        const quote = options.quoteUrl ? await this.resolvePost(options.quoteUrl) : null;
+
+        // A quoted post takes the card's place, as in the official app
+        let media = await this.buildMediaEmbed(content, onProgress);
+        if (!media && !quote && options.linkCard !== false) {
+            const link = [...rt.segments()].find((segment) => segment.isLink())?.link?.uri;
+            media = link ? await this.buildLinkCard(link) : undefined;
+        }
+
+        if (quote) {
+            const record: $Typed<AppBskyEmbedRecord.Main> = {
+                $type: 'app.bsky.embed.record',
+                record: { uri: quote.uri, cid: quote.cid },
+            };
+            postRecord.embed = media
+                ? { $type: 'app.bsky.embed.recordWithMedia', record, media }
+                : record;
+        } else {
+            postRecord.embed = media;
+        }
+
+        const { uri, cid } = await this.agent.post(postRecord);
+        return { uri, cid };
+    }
+
+    /**
+     * Embed for the attached media: a single video, or up to four images
+     */
+    private async buildMediaEmbed(
+        content: PostContent,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<BlueskyMediaEmbed | undefined> {
+        const media = content.media ?? [];
+        if (media.length === 0) return undefined;
+
+        const video = media.find((file) => file.fileType.startsWith('video/'));
+        if (video) {
             return {
-                success: true,
-                platformPostId: response.uri,
-                platformPostUrl: postUrl,
+                $type: 'app.bsky.embed.video',
+                video: await this.uploadVideo(video, onProgress),
+                alt: video.altText || undefined,
+                aspectRatio: video.width && video.height ? { width: video.width, height: video.height } : undefined,
             };
-        } catch (error) {
+        }
+
+        const images = await Promise.all(
+            media.slice(0, 4).map(async (file) => {
+                const blob = await this.uploadBlob(file.filePath, file.fileType);
+                return {
+                    alt: file.altText ?? '',
+                    image: blob,
+                    aspectRatio: file.width && file.height ? { width: file.width, height: file.height } : undefined,
+                };
+            })
+        );
+
+        return {
+            $type: 'app.bsky.embed.images',
+            images,
+        };
+    }
+
+    /**
+     * Link card for a URL. Metadata comes from Bluesky's card extractor,
+     * which the webview can reach without CORS trouble. Returns undefined
+     * when the page has no usable metadata so the post still goes out.
+     */
+    private async buildLinkCard(url: string): Promise<$Typed<AppBskyEmbedExternal.Main> | undefined> {
+        try {
+            const response = await fetch(`${CARD_EXTRACTOR_URL}?url=${encodeURIComponent(url)}`);
+            if (!response.ok) return undefined;
+
+            const card = await response.json() as LinkCardMetadata;
+            if (card.error || !card.title) return undefined;
+
+            let thumb: BlobRef | undefined;
+            if (card.image) {
+                try {
+                    const image = await fetch(card.image);
+                    const data = await image.blob();
+                    if (image.ok && data.size <= MAX_THUMB_SIZE) {
+                        const uploaded = await this.agent.uploadBlob(new Uint8Array(await data.arrayBuffer()), {
+                            encoding: data.type || 'image/jpeg',
+                        });
+                        thumb = uploaded.data.blob;
+                    }
+                } catch (error) {
+                    console.warn('[BlueskyService] Link card thumbnail skipped:', error);
+                }
+            }
+
             return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Failed to create post',
-                errorCode: 'POST_FAILED',
+                $type: 'app.bsky.embed.external',
+                external: {
+                    uri: card.url || url,
+                    title: card.title,
+                    description: card.description ?? '',
+                    thumb,
+                },
             };
+        } catch (error) {
+            console.warn('[BlueskyService] Link card skipped:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reply refs for the post named in the reply-to option
+     */
+    private async resolveReplyTarget(content: PostContent): Promise<AppBskyFeedPost.ReplyRef | undefined> {
+        const { replyToUrl } = getPostOptions(content);
+        if (!replyToUrl) return undefined;
+
+        const parent = await this.resolvePost(replyToUrl);
+        const ref = { uri: parent.uri, cid: parent.cid };
+        return { root: parent.reply?.root ?? ref, parent: ref };
+    }
+
+    /**
+     * Look up a post from a bsky.app URL or an at:// URI
+     */
+    private async resolvePost(
+        urlOrUri: string
+    ): Promise<{ uri: string; cid: string; reply?: AppBskyFeedPost.ReplyRef }> {
+        let uri = urlOrUri.trim();
+        if (!uri.startsWith('at://')) {
+            const match = uri.match(/^https:\/\/bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/);
+            if (!match) {
+                throw new Error(`Not a Bluesky post URL: ${urlOrUri}`);
+            }
+            let [, actor] = match;
+            if (!actor.startsWith('did:')) {
+                actor = (await this.agent.resolveHandle({ handle: actor })).data.did;
+            }
+            uri = `at://${actor}/app.bsky.feed.post/${match[2]}`;
+        }
+
+        const { data } = await this.agent.getPosts({ uris: [uri] });
+        const post = data.posts[0];
+        if (!post) {
+            throw new Error(`Post not found: ${urlOrUri}`);
+        }
+
+        const record = post.record as AppBskyFeedPost.Record;
+        return { uri: post.uri, cid: post.cid, reply: record.reply };
+    }
+
+    private toPostResult(uri: string): PostResult {
+        // Extract post ID from URI
+        const postId = uri.split('/').pop() || '';
+
+        return {
+            success: true,
+            platformPostId: uri,
+            platformPostUrl: `https://bsky.app/profile/${this.session?.handle}/post/${postId}`,
+        };
+    }
+
+    /**
+     * Publish content through the common adapter contract
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        if (content.thread) {
+            return this.createThread(content, content.thread, options?.onProgress, options?.checkpoint);
+        }
+        return this.createPost(content, undefined, options?.onProgress);
+    }
+
+    /**
+     * Delete a post by its AT URI
+     */
+    async delete(platformPostId: string): Promise<boolean> {
+        if (!this.session) return false;
+
+        try {
+            await this.agent.deletePost(platformPostId);
+            return true;
+        } catch {
+            return false;
         }
     }
 
     /**
      * Upload a blob (image) to Bluesky
      */
-    private async uploadBlob(filePath: string, mimeType: string): Promise<{ $type: string; ref: { $link: string }; mimeType: string; size: number }> {
-        // In browser/Tauri context, we need to read the file
-        const response = await fetch(filePath);
-        const blob = await response.blob();
+    private async uploadBlob(filePath: string, mimeType: string): Promise<BlobRef> {
+        const blob = await mediaService.readFile(filePath);
         const arrayBuffer = await blob.arrayBuffer();
         const uint8Array = new Uint8Array(arrayBuffer);
 
@@ -155,16 +611,70 @@ export class BlueskyService {
         return uploadResponse.data.blob;
     }
 
+    /**
+     * Upload a video through the video service, which transcodes it and
+     * stores the result on the PDS, then wait for the processed blob
+     */
+    private async uploadVideo(file: MediaFile, onProgress?: PublishOptions['onProgress']): Promise<BlobRef> {
+        if (!this.session) throw new Error('Not authenticated');
+
+        const data = await mediaService.readFile(file.filePath);
+        onProgress?.({ stage: 'uploading', loaded: 0, total: data.size });
+
+        // The video service writes the blob to the PDS on our behalf
+        const pds = this.agent.pdsUrl ?? this.agent.serviceUrl;
+        const { data: auth } = await this.agent.com.atproto.server.getServiceAuth({
+            aud: `did:web:${pds.hostname}`,
+            lxm: 'com.atproto.repo.uploadBlob',
+            exp: Math.floor(Date.now() / 1000) + 30 * 60,
+        });
+
+        const params = new URLSearchParams({ did: this.session.did, name: file.fileName });
+        const response = await fetch(`${VIDEO_SERVICE_URL}/xrpc/app.bsky.video.uploadVideo?${params}`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${auth.token}`,
+                'Content-Type': file.fileType,
+            },
+            body: data,
+        });
+
+        // Re-uploading the same file answers 409 with the existing job
+        const job = await response.json() as { jobId?: string; error?: string; message?: string };
+        if (!job.jobId) {
+            throw new Error(`Video upload failed (${response.status}): ${job.message ?? job.error ?? 'no job'}`);
+        }
+        onProgress?.({ stage: 'uploading', loaded: data.size, total: data.size });
+
+        const deadline = Date.now() + VIDEO_PROCESSING_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            const { data: status } = await this.videoAgent.app.bsky.video.getJobStatus({ jobId: job.jobId });
+            const { state, blob, progress, error, message } = status.jobStatus;
+
+            if (blob) return blob;
+            if (state === 'JOB_STATE_FAILED') {
+                throw new Error(`Video processing failed: ${message ?? error ?? 'unknown error'}`);
+            }
+
+            onProgress?.({ stage: 'processing', loaded: progress ?? 0, total: 100 });
+            await new Promise((resolve) => setTimeout(resolve, VIDEO_POLL_INTERVAL_MS));
+        }
+
+        throw new Error('Video processing timed out');
+    }
+
     /**
      * Validate post content for Bluesky
      */
-    validateContent(content: PostContent): { valid: boolean; errors: string[] } {
+    validateContent(content: PostContent): ValidationResult {
         const errors: string[] = [];
 
-        // Check text length (300 graphemes)
-        const graphemeLength = [...content.text].length;
-        if (graphemeLength > 300) {
-            errors.push(`Text exceeds 300 characters (current: ${graphemeLength})`);
+        // Check text length (300 graphemes) of every post in the thread
+        for (const text of content.thread ?? [content.text]) {
+            const graphemeLength = countGraphemes(text);
+            if (graphemeLength > 300) {
+                errors.push(`Text exceeds 300 characters (current: ${graphemeLength})`);
+            }
         }
 
         // Check media count
@@ -173,12 +683,20 @@ export class BlueskyService {
         }
 
         // Check media types
-        const allowedTypes = ['image/jpeg', 'image/png', 'image/gif'];
+        const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'video/mp4'];
         if (content.media) {
             for (const media of content.media) {
                 if (!allowedTypes.includes(media.fileType)) {
                     errors.push(`Unsupported media type: ${media.fileType}`);
                 }
+                if (media.fileType.startsWith('video/') && (media.fileSize ?? 0) > MAX_VIDEO_SIZE) {
+                    errors.push(`Video exceeds 100MB: ${media.fileName}`);
+                }
+            }
+
+            // A video embed cannot carry images
+            if (content.media.length > 1 && content.media.some((media) => media.fileType.startsWith('video/'))) {
+                errors.push('A video cannot be combined with other media');
             }
         }
 
@@ -188,6 +706,25 @@ export class BlueskyService {
         };
     }
 
+    /**
+     * Validate content through the common adapter contract
+     */
+    validate(content: PostContent): ValidationResult {
+        return this.validateContent(content);
+    }
+
+    /**
+     * Get rate limit info
+     */
+    async getRateLimits(): Promise<RateLimitInfo> {
+        // PDS write limit: 5,000 points/hour (a post create costs 3)
+        return {
+            remaining: 1666,
+            limit: 1666,
+            resetAt: new Date(Date.now() + 3600000),
+        };
+    }
+
     /**
      * Get current session info
      */
@@ -0,0 +1,117 @@
+/**
+ * Credential Vault
+ *
+ * Frontend client for the encrypted vault in the Tauri backend. Account
+ * secrets never touch SQLite or localStorage; they are sealed per account
+ * and loaded back when a platform adapter needs to authenticate.
+ */
+
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import type { AccountCredentials, AuthResult } from '../types';
+
+export type VaultKeySource = 'keyring' | 'passphrase' | 'file';
+
+export interface VaultStatus {
+    keySource: VaultKeySource | null;
+    locked: boolean;
+}
+
+// Error string returned by the backend while a passphrase vault is locked
+export const VAULT_LOCKED = 'VAULT_LOCKED';
+
+export class CredentialVault {
+    /**
+     * Whether the encrypted vault is available (Tauri only)
+     */
+    isAvailable(): boolean {
+        return isTauri();
+    }
+
+    /**
+     * Load the stored credentials for an account
+     */
+    async load(accountId: string): Promise<AccountCredentials | null> {
+        if (!this.isAvailable()) return null;
+
+        const secret = await invoke<string | null>('vault_load', { accountId });
+        if (!secret) return null;
+
+        const credentials = JSON.parse(secret) as AccountCredentials;
+        return {
+            ...credentials,
+            expiresAt: credentials.expiresAt ? new Date(credentials.expiresAt) : undefined,
+        };
+    }
+
+    /**
+     * Store (replace) the credentials for an account
+     */
+    async store(accountId: string, credentials: AccountCredentials): Promise<void> {
+        if (!this.isAvailable()) return;
+        await invoke('vault_store', { accountId, secret: JSON.stringify(credentials) });
+    }
+
+    /**
+     * Merge refreshed tokens into the stored credentials
+     */
+    async rotate(accountId: string, auth: AuthResult): Promise<AccountCredentials> {
+        const current = (await this.load(accountId)) || {};
+        const rotated: AccountCredentials = {
+            ...current,
+            accessToken: auth.accessToken ?? current.accessToken,
+            refreshToken: auth.refreshToken ?? current.refreshToken,
+            expiresAt: auth.expiresAt ?? current.expiresAt,
+            userId: auth.userId ?? current.userId,
+            serviceUrl: auth.serviceUrl ?? current.serviceUrl,
+        };
+
+        await this.store(accountId, rotated);
+        return rotated;
+    }
+
+    /**
+     * Load a JSON secret that does not belong to an account
+     */
+    async loadSecret<T>(key: string): Promise<T | null> {
+        if (!this.isAvailable()) return null;
+
+        const secret = await invoke<string | null>('vault_load', { accountId: key });
+        return secret ? (JSON.parse(secret) as T) : null;
+    }
+
+    async storeSecret(key: string, value: unknown): Promise<void> {
+        if (!this.isAvailable()) return;
+        await invoke('vault_store', { accountId: key, secret: JSON.stringify(value) });
+    }
+
+    /**
+     * Remove an account's credentials
+     */
+    async remove(accountId: string): Promise<void> {
+        if (!this.isAvailable()) return;
+        await invoke('vault_delete', { accountId });
+    }
+
+    async getStatus(): Promise<VaultStatus> {
+        if (!this.isAvailable()) {
+            return { keySource: null, locked: false };
+        }
+        return invoke<VaultStatus>('vault_status');
+    }
+
+    /**
+     * Unlock a passphrase-protected vault for this session
+     */
+    async unlock(passphrase: string): Promise<void> {
+        await invoke('vault_unlock', { passphrase });
+    }
+
+    /**
+     * Re-encrypt the vault with a key derived from a passphrase
+     */
+    async setPassphrase(passphrase: string): Promise<void> {
+        await invoke('vault_set_passphrase', { passphrase });
+    }
+}
+
+export const credentialVault = new CredentialVault();
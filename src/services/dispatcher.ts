@@ -0,0 +1,202 @@
+/**
+ * Post Dispatcher
+ *
+ * Publishes a post to a single cross-post target through the platform
+ * adapter registry, recording the outcome on the target in usePostStore.
+ */
+
+import { useAccountStore, useAppStore, usePostStore } from '../stores';
+import { parseApiError } from '../lib/errors';
+import { resolveVariant } from '../lib/variants';
+import { getThreadParts } from '../lib/thread';
+import { getAccountAdapter } from './registry';
+import { sessionManager } from './sessionManager';
+import { tokenLifecycleService } from './tokenLifecycle';
+import { preflightValidator } from './preflight';
+import { mediaTransformService } from './mediaTransform';
+import type { CrossPostTarget, MediaFile, PlatformType, Post, PostContent, PostResult, PublishOptions } from '../types';
+
+// Infer a MIME type from a file path's extension
+const MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+};
+
+function guessMimeType(path: string): string {
+    const ext = path.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+/**
+ * Build the content payload a platform receives for a stored post,
+ * applying the post's variant for that platform and splitting it into a
+ * thread when the post allows it
+ */
+export function buildPostContent(post: Post, platform: PlatformType): PostContent {
+    const variant = resolveVariant(post, platform);
+
+    // Keep the post's media order; files without probed metadata fall back to their path
+    const order = post.mediaPaths ?? [];
+    const paths = [...variant.mediaPaths].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    const media: MediaFile[] = paths.map((path, index) => {
+        const probed = post.media?.find((file) => file.filePath === path);
+        return probed ? { ...probed, sortOrder: index } : {
+            id: `${post.id}-${index}`,
+            postId: post.id,
+            filePath: path,
+            fileName: path.split(/[\\/]/).pop() || path,
+            fileType: guessMimeType(path),
+            sortOrder: index,
+        };
+    });
+
+    const thread = getThreadParts(variant.content, platform, Boolean(post.autoThread));
+
+    return {
+        text: thread[0],
+        thread: thread.length > 1 ? thread : undefined,
+        media: media.length > 0 ? media : undefined,
+        hashtags: variant.hashtags.length > 0 ? variant.hashtags : undefined,
+        platformSpecific: variant.title || variant.options
+            ? { ...variant.options, ...(variant.title ? { title: variant.title } : {}) }
+            : undefined,
+    };
+}
+
+export class PostDispatcher {
+    /**
+     * Publish a post to one target and record the result on the target
+     */
+    async publishToTarget(post: Post, target: CrossPostTarget, options?: PublishOptions): Promise<PostResult> {
+        const postStore = usePostStore.getState();
+        const account = useAccountStore.getState().accounts.find((a) => a.id === target.accountId);
+
+        if (!account) {
+            return this.recordFailure(target, {
+                success: false,
+                error: 'Account not found',
+                errorCode: 'ACCOUNT_NOT_FOUND',
+            });
+        }
+
+        if (!account.isActive) {
+            postStore.updateCrossPostTarget(target.id, { status: 'skipped' });
+            return {
+                success: false,
+                error: 'Account is inactive',
+                errorCode: 'ACCOUNT_INACTIVE',
+            };
+        }
+
+        postStore.updateCrossPostTarget(target.id, { status: 'posting' });
+
+        const adapter = getAccountAdapter(account);
+
+        if (!(await sessionManager.ensureSession(account))) {
+            return this.recordFailure(target, {
+                success: false,
+                error: 'Not authenticated',
+                errorCode: 'NOT_AUTHENTICATED',
+            });
+        }
+
+        let content: PostContent;
+        try {
+            content = await mediaTransformService.prepareContent(
+                post.id,
+                buildPostContent(post, account.platform),
+                account.platform
+            );
+        } catch (error) {
+            return this.recordFailure(target, {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                errorCode: 'MEDIA_INVALID',
+            });
+        }
+
+        const report = preflightValidator.validate(account, content);
+        if (report.blocking) {
+            const { language } = useAppStore.getState();
+            return this.recordFailure(target, {
+                success: false,
+                error: report.issues
+                    .filter((i) => i.severity === 'error')
+                    .map((i) => i.message[language])
+                    .join(', '),
+                errorCode: 'VALIDATION_ERROR',
+            });
+        }
+
+        // Carried across the refresh retry so a second attempt skips what the first published
+        let checkpoint = target.checkpoint;
+
+        try {
+            const result = await tokenLifecycleService.publishWithRefresh(account, async () => {
+                const attempt = await adapter.publish(content, {
+                    ...options,
+                    checkpoint,
+                    idempotencyKey: `${post.id}:${target.id}`,
+                });
+                checkpoint = attempt.checkpoint ?? checkpoint;
+                return attempt;
+            });
+
+            if (!result.success) {
+                return this.recordFailure(target, { ...result, checkpoint });
+            }
+
+            postStore.updateCrossPostTarget(target.id, {
+                status: 'success',
+                platformPostId: result.platformPostId,
+                platformPostUrl: result.platformPostUrl,
+                errorCode: undefined,
+                errorMessage: undefined,
+                checkpoint: undefined,
+                postedAt: new Date(),
+            });
+
+            return result;
+        } catch (error) {
+            const appError = parseApiError(error, account.platform);
+            return this.recordFailure(target, {
+                success: false,
+                error: appError.message,
+                errorCode: appError.code,
+                checkpoint,
+            });
+        }
+    }
+
+    /**
+     * Mark a target as failed, keeping any parts that already went live
+     * so the next attempt resumes after them. A platform still processing
+     * an upload leaves the target processing rather than failed.
+     */
+    private recordFailure(target: CrossPostTarget, result: PostResult): PostResult {
+        // An empty checkpoint from the adapter discards the saved one
+        const saved = result.checkpoint ?? target.checkpoint;
+        const checkpoint = saved?.length ? saved : undefined;
+        const processing = result.errorCode === 'PUBLISH_PENDING' && Boolean(checkpoint);
+        usePostStore.getState().updateCrossPostTarget(target.id, {
+            status: processing ? 'processing' : 'failed',
+            errorCode: result.errorCode,
+            errorMessage: result.error,
+            retryCount: processing ? target.retryCount : target.retryCount + 1,
+            checkpoint,
+            ...(checkpoint && result.platformPostId
+                ? { platformPostId: result.platformPostId, platformPostUrl: result.platformPostUrl }
+                : {}),
+        });
+
+        return result;
+    }
+}
+
+export const postDispatcher = new PostDispatcher();
@@ -1,7 +1,42 @@
 export { BlueskyService, blueskyService } from './bluesky';
+export type { BlueskyPostOptions } from './bluesky';
 export { YouTubeService, youtubeService, YOUTUBE_SCOPES } from './youtube';
+export type { YouTubeVideoMetadata } from './youtube';
 export { InstagramService, instagramService, INSTAGRAM_SCOPES } from './instagram';
 export { ThreadsService, threadsService, THREADS_SCOPES } from './threads';
-export { TikTokService, tiktokService, TIKTOK_SCOPES } from './tiktok';
+export { TikTokService, tiktokService, TIKTOK_SCOPES, planTikTokChunks } from './tiktok';
+export type { TikTokVideoMetadata, TikTokChunkPlan } from './tiktok';
 export { XService, xService, X_SCOPES } from './x';
+export { MastodonService, mastodonService, MASTODON_SCOPES, normalizeInstanceUrl } from './mastodon';
+export type { MastodonStatusOptions, MastodonVisibility, MastodonApp } from './mastodon';
 export { SchedulerService, schedulerService } from './scheduler';
+export {
+    platformAdapters,
+    getPlatformAdapter,
+    createPlatformAdapter,
+    AccountClientPool,
+    accountClients,
+    getAccountAdapter,
+} from './registry';
+export { PostDispatcher, postDispatcher, buildPostContent } from './dispatcher';
+export { MediaService, mediaService, MEDIA_EXTENSIONS, isSupportedMediaType } from './media';
+export type { FileDropHandlers } from './media';
+export { MediaTransformService, mediaTransformService, IMAGE_PROFILES } from './mediaTransform';
+export type { ImageProfile } from './mediaTransform';
+export {
+    MediaHostService,
+    mediaHostService,
+    S3MediaHost,
+    HttpMediaHost,
+    isRemoteMedia,
+    MEDIA_HOST_SECRET_KEY,
+} from './mediaHost';
+export type { MediaHost } from './mediaHost';
+export { CredentialVault, credentialVault, VAULT_LOCKED } from './credentialVault';
+export type { VaultKeySource, VaultStatus } from './credentialVault';
+export { SessionManager, sessionManager } from './sessionManager';
+export { TokenLifecycleService, tokenLifecycleService } from './tokenLifecycle';
+export { PreflightValidator, preflightValidator } from './preflight';
+export type { PreflightIssue, PreflightReport, PreflightSeverity } from './preflight';
+export { OAuthService, oauthService } from './oauth';
+export type { OAuthPlatform, OAuthClientConfig, OAuthConnectResult } from './oauth';
@@ -8,7 +8,19 @@
  * Posting: Uses container-based publishing (create container -> publish)
  */
 
-import type { AuthResult, PostContent, PostResult, RateLimitInfo } from '../types';
+import type {
+    AccountCredentials,
+    AuthResult,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { isRemoteMedia, mediaHostService } from './mediaHost';
 
 // Instagram OAuth scopes
 export const INSTAGRAM_SCOPES = [
@@ -23,28 +35,145 @@ export interface InstagramMediaContainer {
     statusCode?: string;
 }
 
-export class InstagramService {
+export class InstagramService implements PlatformAdapter {
+    readonly platform = 'instagram' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: false,
+        images: true,
+        video: false,
+        requiresMedia: true,
+        delete: false,
+    };
+
     private accessToken: string | null = null;
     private igUserId: string | null = null;
     private readonly apiBase = 'https://graph.facebook.com/v18.0';
 
     /**
-     * Initialize OAuth 2.0 flow for Meta (Facebook/Instagram)
+     * Build the Meta (Facebook/Instagram) OAuth 2.0 authorization URL
      */
-    async authenticate(appId: string, redirectUri: string): Promise<AuthResult> {
-        // Meta OAuth URL
+    getAuthorizationUrl(appId: string, redirectUri: string, state: string = crypto.randomUUID()): string {
         const authUrl = new URL('https://www.facebook.com/v18.0/dialog/oauth');
         authUrl.searchParams.set('client_id', appId);
         authUrl.searchParams.set('redirect_uri', redirectUri);
         authUrl.searchParams.set('scope', INSTAGRAM_SCOPES.join(','));
         authUrl.searchParams.set('response_type', 'code');
+        authUrl.searchParams.set('state', state);
 
-        console.log('Open this URL for authentication:', authUrl.toString());
+        return authUrl.toString();
+    }
 
-        return {
-            success: false,
-            error: 'OAuth flow not implemented. Please configure Meta Developer Console first.',
-        };
+    /**
+     * Authenticate from stored credentials
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
+
+        const result = await this.setAccessToken(credentials.accessToken);
+        return result.success ? { ...result, expiresAt: credentials.expiresAt } : result;
+    }
+
+    /**
+     * Exchange the current token for a fresh long-lived token
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        const token = credentials.accessToken || this.accessToken;
+        if (!token || !credentials.clientId || !credentials.clientSecret) {
+            return {
+                success: false,
+                error: 'Missing access token or app credentials',
+            };
+        }
+
+        try {
+            const params = new URLSearchParams({
+                grant_type: 'fb_exchange_token',
+                client_id: credentials.clientId,
+                client_secret: credentials.clientSecret,
+                fb_exchange_token: token,
+            });
+
+            const response = await fetch(`${this.apiBase}/oauth/access_token?${params}`);
+
+            if (!response.ok) {
+                if (response.status === 400 || response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
+                throw new Error('Failed to refresh token');
+            }
+
+            const data = await response.json();
+            this.accessToken = data.access_token;
+
+            return {
+                success: true,
+                accessToken: data.access_token,
+                expiresAt: data.expires_in
+                    ? new Date(Date.now() + data.expires_in * 1000)
+                    : undefined,
+                userId: this.igUserId || undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Token refresh failed',
+            };
+        }
+    }
+
+    /**
+     * Exchange an authorization code for a long-lived access token
+     */
+    async exchangeCodeForTokens(
+        code: string,
+        appId: string,
+        appSecret: string,
+        redirectUri: string
+    ): Promise<AuthResult> {
+        try {
+            const params = new URLSearchParams({
+                client_id: appId,
+                client_secret: appSecret,
+                redirect_uri: redirectUri,
+                code,
+            });
+
+            const response = await fetch(`${this.apiBase}/oauth/access_token?${params}`);
+
+            if (!response.ok) {
+                throw new Error('Failed to exchange code');
+            }
+
+            const data = await response.json();
+
+            // Short-lived user tokens expire in about an hour; exchange for a 60-day token
+            const refreshed = await this.refresh({
+                accessToken: data.access_token,
+                clientId: appId,
+                clientSecret: appSecret,
+            });
+
+            if (!refreshed.success || !refreshed.accessToken) {
+                return refreshed;
+            }
+
+            const result = await this.setAccessToken(refreshed.accessToken);
+            return result.success ? { ...result, expiresAt: refreshed.expiresAt } : result;
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Token exchange failed',
+            };
+        }
     }
 
     /**
@@ -112,7 +241,8 @@ export class InstagramService {
     private async createMediaContainer(
         imageUrl: string,
         caption: string,
-        isCarouselItem = false
+        isCarouselItem = false,
+        altText?: string
     ): Promise<InstagramMediaContainer | null> {
         if (!this.accessToken || !this.igUserId) return null;
 
@@ -126,6 +256,9 @@ export class InstagramService {
             if (isCarouselItem) {
                 params.set('is_carousel_item', 'true');
             }
+            if (altText) {
+                params.set('alt_text', altText);
+            }
 
             const response = await fetch(
                 `${this.apiBase}/${this.igUserId}/media`,
@@ -136,12 +269,15 @@ export class InstagramService {
             );
 
             if (!response.ok) {
+                if (response.status === 401) throw response;
                 throw new Error('Failed to create media container');
             }
 
             const data = await response.json();
             return { id: data.id, status: 'IN_PROGRESS' };
-        } catch {
+        } catch (error) {
+            // Let an expired token reach createPost() so it can be refreshed
+            if (error instanceof Response) throw error;
             return null;
         }
     }
@@ -232,8 +368,9 @@ export class InstagramService {
     /**
      * Create a post with images
      * Note: Images must be publicly accessible URLs
+     * altTexts holds the description for the image at the same index
      */
-    async createPost(content: PostContent, imageUrls: string[]): Promise<PostResult> {
+    async createPost(content: PostContent, imageUrls: string[], altTexts: (string | undefined)[] = []): Promise<PostResult> {
         if (!this.accessToken || !this.igUserId) {
             return {
                 success: false,
@@ -255,7 +392,7 @@ export class InstagramService {
 
             if (imageUrls.length === 1) {
                 // Single image post
-                const container = await this.createMediaContainer(imageUrls[0], content.text);
+                const container = await this.createMediaContainer(imageUrls[0], content.text, false, altTexts[0]);
                 if (!container) {
                     throw new Error('Failed to create media container');
                 }
@@ -264,8 +401,8 @@ export class InstagramService {
                 // Carousel post
                 const itemContainers: string[] = [];
 
-                for (const url of imageUrls.slice(0, 10)) {
-                    const container = await this.createMediaContainer(url, '', true);
+                for (const [index, url] of imageUrls.slice(0, 10).entries()) {
+                    const container = await this.createMediaContainer(url, '', true, altTexts[index]);
                     if (container) {
                         itemContainers.push(container.id);
                     }
@@ -310,18 +447,63 @@ export class InstagramService {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Post failed',
-                errorCode: 'POST_FAILED',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
+            };
+        }
+    }
+
+    /**
+     * Publish content through the common adapter contract
+     * Local images are put on the configured media host first.
+     */
+    async publish(content: PostContent): Promise<PostResult> {
+        const images = (content.media || []).filter((m) => m.fileType.startsWith('image/'));
+
+        try {
+            return await mediaHostService.withHostedMedia(images, (hosted) => {
+                const remote = hosted.filter(isRemoteMedia);
+                return this.createPost(content, remote.map((m) => m.filePath), remote.map((m) => m.altText));
+            });
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Media upload failed',
+                errorCode: getPublishErrorCode(error, 'MEDIA_INVALID'),
             };
         }
     }
 
+    /**
+     * Instagram's Graph API does not support deleting media
+     */
+    async delete(): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Validate content through the common adapter contract
+     */
+    validate(content: PostContent): ValidationResult {
+        const validation = this.validateContent(content);
+        const errors = [...validation.errors];
+
+        if (!content.media || content.media.length === 0) {
+            errors.push('Instagram requires at least one image');
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors,
+        };
+    }
+
     /**
      * Validate content for Instagram
      */
-    validateContent(content: PostContent): { valid: boolean; errors: string[] } {
+    validateContent(content: PostContent): ValidationResult {
         const errors: string[] = [];
 
-        if (content.text.length > 2200) {
+        if (getTextLength(content.text, 'instagram') > 2200) {
             errors.push('Caption exceeds 2200 characters');
         }
 
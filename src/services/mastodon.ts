@@ -0,0 +1,437 @@
+/**
+ * Mastodon API Service
+ *
+ * Works with any Mastodon-compatible server. There is no central developer
+ * console: an OAuth app is registered on the user's instance at login, and
+ * the instance URL is stored with the account. Access tokens do not expire,
+ * so a 401 means the user revoked the app.
+ *
+ * Rate Limit: 300 requests / 5 minutes per account
+ */
+
+import type {
+    AccountCredentials,
+    AuthResult,
+    MediaFile,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { mediaService } from './media';
+
+// Mastodon OAuth scopes
+export const MASTODON_SCOPES = ['read:accounts', 'write:statuses', 'write:media'];
+
+const APP_NAME = 'CROSS LINK ACCESS';
+
+// Mastodon's defaults, used until the instance reports its own
+const DEFAULT_MAX_CHARACTERS = 500;
+const DEFAULT_MAX_MEDIA = 4;
+
+const MEDIA_POLL_INTERVAL_MS = 2000;
+const MEDIA_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type MastodonVisibility = 'public' | 'unlisted' | 'private' | 'direct';
+
+// Mastodon status options, stored in the Mastodon variant
+export interface MastodonStatusOptions {
+    visibility?: MastodonVisibility;
+    // Content warning shown in place of the text until expanded
+    spoilerText?: string;
+    // Hide attached media behind a warning
+    sensitive?: boolean;
+}
+
+export interface MastodonApp {
+    clientId: string;
+    clientSecret: string;
+}
+
+interface MastodonInstance {
+    configuration?: {
+        statuses?: { max_characters?: number; max_media_attachments?: number };
+    };
+    // Pleroma/Akkoma and older forks
+    max_toot_chars?: number;
+}
+
+/**
+ * Origin of an instance given as a host name or URL
+ */
+export function normalizeInstanceUrl(instance: string): string {
+    const trimmed = instance.trim();
+    return new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).origin;
+}
+
+export class MastodonService implements PlatformAdapter {
+    readonly platform = 'mastodon' as const;
+    // Limits are replaced with the instance's own once authenticated
+    capabilities: PlatformCapabilities = {
+        text: true,
+        images: true,
+        video: true,
+        requiresMedia: false,
+        delete: true,
+        maxTextLength: DEFAULT_MAX_CHARACTERS,
+        maxMediaCount: DEFAULT_MAX_MEDIA,
+    };
+
+    private accessToken: string | null = null;
+    private instanceUrl: string | null = null;
+
+    /**
+     * Register an OAuth app on the instance for this redirect URI
+     */
+    async registerApp(instanceUrl: string, redirectUri: string): Promise<MastodonApp> {
+        const response = await fetch(`${normalizeInstanceUrl(instanceUrl)}/api/v1/apps`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                client_name: APP_NAME,
+                redirect_uris: redirectUri,
+                scopes: MASTODON_SCOPES.join(' '),
+            }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => null);
+            throw new Error(error?.error || `App registration failed (${response.status})`);
+        }
+
+        const data = await response.json();
+        return { clientId: data.client_id, clientSecret: data.client_secret };
+    }
+
+    /**
+     * Build the instance's OAuth 2.0 authorization URL
+     */
+    getAuthorizationUrl(
+        instanceUrl: string,
+        clientId: string,
+        redirectUri: string,
+        state: string = crypto.randomUUID()
+    ): string {
+        const authUrl = new URL(`${normalizeInstanceUrl(instanceUrl)}/oauth/authorize`);
+        authUrl.searchParams.set('client_id', clientId);
+        authUrl.searchParams.set('redirect_uri', redirectUri);
+        authUrl.searchParams.set('scope', MASTODON_SCOPES.join(' '));
+        authUrl.searchParams.set('response_type', 'code');
+        authUrl.searchParams.set('state', state);
+
+        return authUrl.toString();
+    }
+
+    /**
+     * Exchange authorization code for an access token
+     */
+    async exchangeCodeForTokens(
+        instanceUrl: string,
+        code: string,
+        clientId: string,
+        clientSecret: string,
+        redirectUri: string
+    ): Promise<AuthResult> {
+        try {
+            const origin = normalizeInstanceUrl(instanceUrl);
+            const response = await fetch(`${origin}/oauth/token`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({
+                    grant_type: 'authorization_code',
+                    code,
+                    client_id: clientId,
+                    client_secret: clientSecret,
+                    redirect_uri: redirectUri,
+                    scope: MASTODON_SCOPES.join(' '),
+                }),
+            });
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => null);
+                throw new Error(error?.error_description || error?.error || 'Token exchange failed');
+            }
+
+            const data = await response.json();
+            this.accessToken = data.access_token;
+            this.instanceUrl = origin;
+
+            return {
+                success: true,
+                accessToken: data.access_token,
+                serviceUrl: origin,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Authenticate from stored credentials and load the instance's limits
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken || !credentials.serviceUrl) {
+            return {
+                success: false,
+                error: 'Missing access token or instance URL',
+            };
+        }
+
+        try {
+            const origin = normalizeInstanceUrl(credentials.serviceUrl);
+            const response = await fetch(`${origin}/api/v1/accounts/verify_credentials`, {
+                headers: { Authorization: `Bearer ${credentials.accessToken}` },
+            });
+
+            if (!response.ok) {
+                if (response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
+                throw new Error(`Failed to fetch account (${response.status})`);
+            }
+
+            const account = await response.json();
+            this.accessToken = credentials.accessToken;
+            this.instanceUrl = origin;
+            await this.loadInstanceLimits();
+
+            return {
+                success: true,
+                accessToken: credentials.accessToken,
+                userId: account.id,
+                // Full fediverse address, e.g. user@mastodon.social
+                username: `${account.username}@${new URL(origin).host}`,
+                displayName: account.display_name || account.username,
+                avatarUrl: account.avatar,
+                serviceUrl: origin,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Authentication failed',
+            };
+        }
+    }
+
+    /**
+     * Tokens never expire, so refreshing only checks the token is still valid
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        return this.authenticate(credentials);
+    }
+
+    /**
+     * Read the character and attachment limits the instance reports
+     */
+    private async loadInstanceLimits(): Promise<void> {
+        try {
+            let response = await fetch(`${this.instanceUrl}/api/v2/instance`);
+            if (!response.ok) {
+                response = await fetch(`${this.instanceUrl}/api/v1/instance`);
+            }
+            if (!response.ok) return;
+
+            const instance = await response.json() as MastodonInstance;
+            const statuses = instance.configuration?.statuses;
+            this.capabilities = {
+                ...this.capabilities,
+                maxTextLength: statuses?.max_characters ?? instance.max_toot_chars ?? DEFAULT_MAX_CHARACTERS,
+                maxMediaCount: statuses?.max_media_attachments ?? DEFAULT_MAX_MEDIA,
+            };
+        } catch (error) {
+            console.warn('[MastodonService] Could not load instance limits:', error);
+        }
+    }
+
+    /**
+     * Upload one attachment and wait until the server has processed it
+     */
+    async uploadMedia(file: MediaFile, onProgress?: PublishOptions['onProgress']): Promise<string> {
+        const data = await mediaService.readFile(file.filePath);
+        onProgress?.({ stage: 'uploading', loaded: 0, total: data.size });
+
+        const form = new FormData();
+        form.append('file', data, file.fileName);
+        if (file.altText) {
+            form.append('description', file.altText);
+        }
+
+        const uploaded = await this.request('/api/v2/media', { method: 'POST', body: form });
+        onProgress?.({ stage: 'uploading', loaded: data.size, total: data.size });
+
+        // Large images and video answer 202 and are processed in the background
+        let attachment = uploaded;
+        const deadline = Date.now() + MEDIA_PROCESSING_TIMEOUT_MS;
+        while (!attachment.url) {
+            if (Date.now() > deadline) {
+                throw new Error('Timed out waiting for the server to process the media');
+            }
+
+            onProgress?.({ stage: 'processing', loaded: 0, total: 0 });
+            await new Promise((resolve) => setTimeout(resolve, MEDIA_POLL_INTERVAL_MS));
+            attachment = await this.request(`/api/v1/media/${attachment.id}`, { method: 'GET' });
+        }
+
+        return attachment.id;
+    }
+
+    /**
+     * Publish content through the common adapter contract
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        if (!this.accessToken) {
+            return {
+                success: false,
+                error: 'Not authenticated',
+                errorCode: 'NOT_AUTHENTICATED',
+            };
+        }
+
+        const metadata = (content.platformSpecific || {}) as MastodonStatusOptions;
+
+        const mediaIds: string[] = [];
+        for (const file of content.media ?? []) {
+            try {
+                mediaIds.push(await this.uploadMedia(file, options?.onProgress));
+            } catch (error) {
+                return {
+                    success: false,
+                    error: `Media upload failed (${file.fileName}): ${error instanceof Error ? error.message : error}`,
+                    errorCode: getPublishErrorCode(error, 'MEDIA_INVALID'),
+                };
+            }
+        }
+
+        try {
+            const status = await this.request('/api/v1/statuses', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    // Every attempt for a target sends the same key; for an hour the instance
+                    // answers a resend with the status it already created instead of posting again
+                    ...(options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+                },
+                body: JSON.stringify({
+                    status: content.text,
+                    media_ids: mediaIds,
+                    spoiler_text: metadata.spoilerText || undefined,
+                    sensitive: metadata.sensitive || undefined,
+                    visibility: metadata.visibility ?? 'public',
+                }),
+            });
+
+            return {
+                success: true,
+                platformPostId: status.id,
+                platformPostUrl: status.url,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to post status',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
+            };
+        }
+    }
+
+    /**
+     * Delete a status by ID
+     */
+    async delete(platformPostId: string): Promise<boolean> {
+        if (!this.accessToken) return false;
+
+        try {
+            await this.request(`/api/v1/statuses/${platformPostId}`, { method: 'DELETE' });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async request(path: string, init: RequestInit) {
+        const response = await fetch(`${this.instanceUrl}${path}`, {
+            ...init,
+            headers: {
+                ...init.headers,
+                Authorization: `Bearer ${this.accessToken}`,
+            },
+        });
+
+        if (!response.ok) {
+            if (response.status === 401) throw response;
+            const error = await response.json().catch(() => null);
+            throw new Error(error?.error || `Mastodon request failed (${response.status})`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Validate content through the common adapter contract
+     */
+    validate(content: PostContent): ValidationResult {
+        const errors: string[] = [];
+        const maxLength = this.capabilities.maxTextLength ?? DEFAULT_MAX_CHARACTERS;
+        const maxMedia = this.capabilities.maxMediaCount ?? DEFAULT_MAX_MEDIA;
+
+        // The content warning counts toward the limit too
+        const metadata = (content.platformSpecific || {}) as MastodonStatusOptions;
+        const length = getTextLength(content.text + (metadata.spoilerText ?? ''), 'mastodon');
+        if (length > maxLength) {
+            errors.push(`Text exceeds ${maxLength} characters (${length}/${maxLength})`);
+        }
+
+        const media = content.media ?? [];
+        if (media.length > maxMedia) {
+            errors.push(`Maximum ${maxMedia} media attachments allowed`);
+        }
+        if (media.length > 1 && media.some((m) => m.fileType.startsWith('video/') || m.fileType === 'image/gif')) {
+            errors.push('A video or GIF must be the only attachment');
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors,
+        };
+    }
+
+    /**
+     * Get rate limit info
+     */
+    async getRateLimits(): Promise<RateLimitInfo> {
+        return {
+            remaining: 300,
+            limit: 300,
+            resetAt: new Date(Date.now() + 5 * 60 * 1000),
+        };
+    }
+
+    /**
+     * Check if authenticated
+     */
+    isAuthenticated(): boolean {
+        return this.accessToken !== null;
+    }
+
+    /**
+     * Logout
+     */
+    logout(): void {
+        this.accessToken = null;
+        this.instanceUrl = null;
+    }
+}
+
+export const mastodonService = new MastodonService();
@@ -0,0 +1,237 @@
+/**
+ * Media Service
+ *
+ * Picks media files through the native dialog or drag-and-drop and probes
+ * them into MediaFile records: type and size come from the Tauri backend,
+ * dimensions, duration and a JPEG thumbnail are read in the webview.
+ */
+
+import { convertFileSrc, invoke, isTauri } from '@tauri-apps/api/core';
+import { getCurrentWebview } from '@tauri-apps/api/webview';
+import { open } from '@tauri-apps/plugin-dialog';
+import type { MediaFile } from '../types';
+
+export const MEDIA_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'mp4', 'mov', 'm4v', 'webm'];
+
+// Longest edge of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+// Position of the video frame used as the thumbnail, in seconds
+const THUMBNAIL_FRAME_TIME = 1;
+
+interface MediaProbe {
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+}
+
+interface VisualInfo {
+    width: number;
+    height: number;
+    duration?: number;
+    thumbnailPath?: string;
+}
+
+export interface FileDropHandlers {
+    onHover: (hovering: boolean) => void;
+    onDrop: (paths: string[]) => void;
+}
+
+export function isSupportedMediaType(fileType: string): boolean {
+    return fileType.startsWith('image/') || fileType.startsWith('video/');
+}
+
+export class MediaService {
+    // Files the asset protocol may serve in this session
+    private allowedPaths = new Set<string>();
+
+    /**
+     * Open the native file dialog and return the chosen paths
+     */
+    async pickFiles(extensions: string[] = MEDIA_EXTENSIONS, multiple = true): Promise<string[]> {
+        if (!isTauri()) return [];
+
+        const selected = await open({
+            multiple,
+            filters: [{ name: 'Media', extensions }],
+        });
+        if (!selected) return [];
+        return Array.isArray(selected) ? selected : [selected];
+    }
+
+    /**
+     * Listen for files dragged onto the window; resolves to an unsubscribe function
+     */
+    async onFileDrop(handlers: FileDropHandlers): Promise<() => void> {
+        if (!isTauri()) return () => {};
+
+        return getCurrentWebview().onDragDropEvent((event) => {
+            switch (event.payload.type) {
+                case 'enter':
+                case 'over':
+                    handlers.onHover(true);
+                    break;
+                case 'drop':
+                    handlers.onHover(false);
+                    handlers.onDrop(event.payload.paths);
+                    break;
+                case 'leave':
+                    handlers.onHover(false);
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Read a file's metadata and create its thumbnail
+     */
+    async probe(path: string): Promise<MediaFile> {
+        const info = await invoke<MediaProbe>('media_probe', { path });
+        this.allowedPaths.add(path);
+        if (!isSupportedMediaType(info.fileType)) {
+            throw new Error(`Unsupported media type: ${info.fileName}`);
+        }
+
+        const file: MediaFile = {
+            id: crypto.randomUUID(),
+            postId: '',
+            filePath: path,
+            fileName: info.fileName,
+            fileType: info.fileType,
+            fileSize: info.fileSize,
+            sortOrder: 0,
+        };
+
+        try {
+            const visual = file.fileType.startsWith('video/')
+                ? await this.probeVideo(file)
+                : await this.probeImage(file);
+            return { ...file, ...visual };
+        } catch (error) {
+            // The file can still be posted; only the preview details are missing
+            console.warn(`[MediaService] Could not read ${file.fileName}:`, error);
+            return file;
+        }
+    }
+
+    /**
+     * Size of a local file in bytes, read by the backend without loading
+     * the file or granting the webview access to it. Use the recorded
+     * fileSize when there is one.
+     */
+    async getFileSize(filePath: string): Promise<number> {
+        if (!isTauri()) {
+            throw new Error(`Cannot read the size of ${filePath} outside the desktop app`);
+        }
+        return invoke<number>('media_size', { path: filePath });
+    }
+
+    /**
+     * URL the webview can display for a file, preferring its thumbnail
+     */
+    getPreviewUrl(file: MediaFile): string | null {
+        if (!isTauri()) return null;
+        if (file.thumbnailPath) return convertFileSrc(file.thumbnailPath);
+        return file.fileType.startsWith('image/') ? convertFileSrc(file.filePath) : null;
+    }
+
+    /**
+     * Read a local (or remote) media file's contents for uploading
+     */
+    async readFile(filePath: string): Promise<Blob> {
+        const response = await fetch(await this.toFetchUrl(filePath));
+        if (!response.ok) throw new Error(`Could not read ${filePath}`);
+        return response.blob();
+    }
+
+    /**
+     * Read bytes [start, end) of a file without loading the rest, for
+     * chunked uploads of large videos
+     */
+    async readFileRange(filePath: string, start: number, end: number): Promise<Blob> {
+        const response = await fetch(await this.toFetchUrl(filePath), {
+            headers: { Range: `bytes=${start}-${end - 1}` },
+        });
+        if (!response.ok) throw new Error(`Could not read ${filePath}`);
+
+        // Servers that ignore Range answer 200 with the whole file
+        const blob = await response.blob();
+        return response.status === 206 ? blob : blob.slice(start, end);
+    }
+
+    private async toFetchUrl(filePath: string): Promise<string> {
+        const local = isTauri() && !/^(https?|blob|data):/.test(filePath);
+        if (!local) return filePath;
+
+        // Files attached before a restart have to be allowed again
+        if (!this.allowedPaths.has(filePath)) {
+            await invoke('media_allow', { path: filePath });
+            this.allowedPaths.add(filePath);
+        }
+        return convertFileSrc(filePath);
+    }
+
+    private async probeImage(file: MediaFile): Promise<VisualInfo> {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.src = convertFileSrc(file.filePath);
+        await image.decode();
+
+        const { naturalWidth: width, naturalHeight: height } = image;
+        return {
+            width,
+            height,
+            thumbnailPath: await this.saveThumbnail(file.id, image, width, height),
+        };
+    }
+
+    private async probeVideo(file: MediaFile): Promise<VisualInfo> {
+        const video = document.createElement('video');
+        video.crossOrigin = 'anonymous';
+        video.preload = 'metadata';
+        video.muted = true;
+        video.src = convertFileSrc(file.filePath);
+
+        await this.waitFor(video, 'loadedmetadata');
+        const { videoWidth: width, videoHeight: height } = video;
+        const duration = Math.ceil(video.duration);
+
+        video.currentTime = Math.min(THUMBNAIL_FRAME_TIME, video.duration / 2);
+        await this.waitFor(video, 'seeked');
+
+        return {
+            width,
+            height,
+            duration,
+            thumbnailPath: await this.saveThumbnail(file.id, video, width, height),
+        };
+    }
+
+    private waitFor(video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked'): Promise<void> {
+        return new Promise((resolve, reject) => {
+            video.addEventListener(event, () => resolve(), { once: true });
+            video.addEventListener('error', () => reject(video.error), { once: true });
+        });
+    }
+
+    private async saveThumbnail(
+        mediaId: string,
+        source: CanvasImageSource,
+        width: number,
+        height: number
+    ): Promise<string> {
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+        if (!blob) throw new Error('Thumbnail encoding failed');
+
+        const data = Array.from(new Uint8Array(await blob.arrayBuffer()));
+        return invoke<string>('media_save_thumbnail', { mediaId, data });
+    }
+}
+
+export const mediaService = new MediaService();
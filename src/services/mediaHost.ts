@@ -0,0 +1,305 @@
+/**
+ * Media Host Service
+ *
+ * Instagram and Threads fetch images from a public URL instead of accepting
+ * uploads. This service puts local media on a user-configured host, either
+ * an S3-compatible bucket (AWS, MinIO, R2...) or a plain HTTP upload
+ * endpoint, and can remove the uploads once the post is published.
+ */
+
+import { useAppStore } from '../stores';
+import { credentialVault } from './credentialVault';
+import { mediaService } from './media';
+import type {
+    HostedMedia,
+    HttpMediaHostConfig,
+    MediaFile,
+    MediaHostConfig,
+    MediaHostSecrets,
+    S3MediaHostConfig,
+} from '../types';
+
+// Vault entry holding the host's secret key or auth token
+export const MEDIA_HOST_SECRET_KEY = 'media-host';
+
+export interface MediaHost {
+    upload(file: MediaFile, data: Blob): Promise<HostedMedia>;
+    remove(hosted: HostedMedia): Promise<void>;
+}
+
+export function isRemoteMedia(file: MediaFile): boolean {
+    return /^https?:\/\//.test(file.filePath);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256(data: BufferSource | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function hmac(key: BufferSource | string, data: string): Promise<ArrayBuffer> {
+    const raw = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+    const cryptoKey = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+// RFC 3986 encoding as required by the SigV4 canonical URI
+function encodeSegment(segment: string): string {
+    return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function readPath(value: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        value
+    );
+}
+
+function objectKey(file: MediaFile, prefix = ''): string {
+    const name = file.fileName.replace(/[^A-Za-z0-9._-]/g, '_');
+    return `${prefix}${file.id}-${name}`;
+}
+
+/**
+ * S3-compatible bucket, signed with AWS Signature Version 4.
+ * The bucket (or publicBaseUrl) must be publicly readable.
+ */
+export class S3MediaHost implements MediaHost {
+    constructor(
+        private config: S3MediaHostConfig,
+        private secretAccessKey: string
+    ) {}
+
+    async upload(file: MediaFile, data: Blob): Promise<HostedMedia> {
+        const key = objectKey(file, this.config.prefix);
+        const body = await data.arrayBuffer();
+
+        const response = await this.send('PUT', key, body, { 'content-type': file.fileType });
+        if (!response.ok) {
+            throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`);
+        }
+
+        const base = this.config.publicBaseUrl?.replace(/\/+$/, '');
+        return { url: base ? `${base}/${this.encodeKey(key)}` : this.objectUrl(key).toString(), ref: key };
+    }
+
+    async remove(hosted: HostedMedia): Promise<void> {
+        const response = await this.send('DELETE', hosted.ref, new ArrayBuffer(0));
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`S3 delete failed (${response.status})`);
+        }
+    }
+
+    private encodeKey(key: string): string {
+        return key.split('/').map(encodeSegment).join('/');
+    }
+
+    private objectUrl(key: string): URL {
+        const endpoint = new URL(this.config.endpoint);
+        const base = endpoint.pathname.replace(/\/+$/, '');
+
+        if (this.config.pathStyle) {
+            endpoint.pathname = `${base}/${encodeSegment(this.config.bucket)}/${this.encodeKey(key)}`;
+        } else {
+            endpoint.host = `${this.config.bucket}.${endpoint.host}`;
+            endpoint.pathname = `${base}/${this.encodeKey(key)}`;
+        }
+        return endpoint;
+    }
+
+    private async send(
+        method: 'PUT' | 'DELETE',
+        key: string,
+        body: ArrayBuffer,
+        extraHeaders: Record<string, string> = {}
+    ): Promise<Response> {
+        const url = this.objectUrl(key);
+        const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        const date = amzDate.slice(0, 8);
+        const payloadHash = await sha256(body);
+
+        const headers: Record<string, string> = {
+            ...extraHeaders,
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+        };
+        const names = Object.keys(headers).sort();
+        const signedHeaders = names.join(';');
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            '',
+            names.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+            signedHeaders,
+            payloadHash,
+        ].join('\n');
+
+        const scope = `${date}/${this.config.region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256(canonicalRequest)].join('\n');
+
+        let signingKey = await hmac(`AWS4${this.secretAccessKey}`, date);
+        for (const part of [this.config.region, 's3', 'aws4_request']) {
+            signingKey = await hmac(signingKey, part);
+        }
+        const signature = toHex(await hmac(signingKey, stringToSign));
+
+        // The webview sets Host itself; it is still part of the signature
+        const { host: _host, ...requestHeaders } = headers;
+        return fetch(url, {
+            method,
+            headers: {
+                ...requestHeaders,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+            },
+            body: method === 'PUT' ? body : undefined,
+        });
+    }
+}
+
+/**
+ * Generic endpoint that takes a multipart POST and answers JSON with the URL
+ */
+export class HttpMediaHost implements MediaHost {
+    constructor(
+        private config: HttpMediaHostConfig,
+        private authToken?: string
+    ) {}
+
+    async upload(file: MediaFile, data: Blob): Promise<HostedMedia> {
+        const form = new FormData();
+        form.append(this.config.fieldName || 'file', data, file.fileName);
+
+        const response = await fetch(this.config.uploadUrl, {
+            method: 'POST',
+            headers: this.authHeaders(),
+            body: form,
+        });
+        if (!response.ok) {
+            throw new Error(`Media upload failed (${response.status}): ${await response.text()}`);
+        }
+
+        const json = await response.json();
+        const url = readPath(json, this.config.urlField || 'url');
+        if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+            throw new Error(`Media host response has no URL at "${this.config.urlField}"`);
+        }
+
+        const deleteUrl = this.config.deleteUrlField ? readPath(json, this.config.deleteUrlField) : undefined;
+        return { url, ref: typeof deleteUrl === 'string' ? deleteUrl : '' };
+    }
+
+    async remove(hosted: HostedMedia): Promise<void> {
+        // Without a delete URL the host keeps the file
+        if (!hosted.ref) return;
+
+        const response = await fetch(hosted.ref, { method: 'DELETE', headers: this.authHeaders() });
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`Media delete failed (${response.status})`);
+        }
+    }
+
+    private authHeaders(): Record<string, string> {
+        return this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {};
+    }
+}
+
+export class MediaHostService {
+    /**
+     * Whether a host is configured for local media
+     */
+    isConfigured(): boolean {
+        return useAppStore.getState().mediaHost !== null;
+    }
+
+    async loadSecrets(): Promise<MediaHostSecrets> {
+        return (await credentialVault.loadSecret<MediaHostSecrets>(MEDIA_HOST_SECRET_KEY)) ?? {};
+    }
+
+    async saveSecrets(secrets: MediaHostSecrets): Promise<void> {
+        await credentialVault.storeSecret(MEDIA_HOST_SECRET_KEY, secrets);
+    }
+
+    /**
+     * Build the configured host, or null when none is set up
+     */
+    async getHost(config = useAppStore.getState().mediaHost): Promise<MediaHost | null> {
+        if (!config) return null;
+
+        const secrets = await this.loadSecrets();
+        if (config.type === 's3') {
+            if (!secrets.secretAccessKey) throw new Error('Media host secret key is not set');
+            return new S3MediaHost(config, secrets.secretAccessKey);
+        }
+        return new HttpMediaHost(config, secrets.authToken);
+    }
+
+    /**
+     * Upload and remove a small test image with the given settings
+     */
+    async testConnection(config: MediaHostConfig): Promise<string> {
+        const host = await this.getHost(config);
+        if (!host) throw new Error('Media host is not configured');
+
+        // 1x1 transparent PNG
+        const png = Uint8Array.from(atob(
+            'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+        ), (c) => c.charCodeAt(0));
+        const file: MediaFile = {
+            id: crypto.randomUUID(),
+            postId: '',
+            filePath: '',
+            fileName: 'cross-link-test.png',
+            fileType: 'image/png',
+            sortOrder: 0,
+        };
+
+        const hosted = await host.upload(file, new Blob([png], { type: 'image/png' }));
+        await host.remove(hosted);
+        return hosted.url;
+    }
+
+    /**
+     * Run publish with local media replaced by hosted URLs. Uploads are
+     * removed afterwards when the host is set to delete after publishing.
+     */
+    async withHostedMedia<T>(media: MediaFile[], publish: (media: MediaFile[]) => Promise<T>): Promise<T> {
+        const config = useAppStore.getState().mediaHost;
+        if (!media.some((file) => !isRemoteMedia(file))) return publish(media);
+
+        const host = await this.getHost(config);
+        if (!host) return publish(media);
+
+        const uploads: HostedMedia[] = [];
+        try {
+            const hostedMedia: MediaFile[] = [];
+            for (const file of media) {
+                if (isRemoteMedia(file)) {
+                    hostedMedia.push(file);
+                    continue;
+                }
+                const data = await mediaService.readFile(file.filePath);
+                const hosted = await host.upload(file, data);
+                uploads.push(hosted);
+                hostedMedia.push({ ...file, filePath: hosted.url });
+            }
+
+            return await publish(hostedMedia);
+        } finally {
+            // The platform has fetched the images once the container is published
+            if (config?.deleteAfterPublish) {
+                await Promise.all(uploads.map((hosted) =>
+                    host.remove(hosted).catch((error) => {
+                        console.warn('[MediaHostService] Could not remove upload:', error);
+                    })
+                ));
+            }
+        }
+    }
+}
+
+export const mediaHostService = new MediaHostService();
@@ -0,0 +1,131 @@
+/**
+ * Media Transform Service
+ *
+ * Produces platform-specific derivatives of attached images before upload:
+ * resized, recompressed, converted to JPEG and padded or cropped into the
+ * platform's aspect ratio range. Derivatives are recorded on the original
+ * MediaFile so later publishes to the same platform reuse them.
+ */
+
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { usePostStore } from '../stores';
+import type { MediaDerivative, MediaFile, PlatformType, PostContent } from '../types';
+
+const MB = 1024 * 1024;
+
+export interface ImageProfile {
+    maxBytes: number;
+    // Longest edge in pixels
+    maxDimension: number;
+    // Image types uploaded without conversion
+    formats: string[];
+    minAspect?: number;
+    maxAspect?: number;
+    // Crop instead of padding when the aspect ratio is out of range
+    crop?: boolean;
+}
+
+export const IMAGE_PROFILES: Partial<Record<PlatformType, ImageProfile>> = {
+    bluesky: { maxBytes: 1_000_000, maxDimension: 2000, formats: ['image/jpeg', 'image/png'] },
+    x: { maxBytes: 5 * MB, maxDimension: 4096, formats: ['image/jpeg', 'image/png'] },
+    instagram: { maxBytes: 8 * MB, maxDimension: 1440, formats: ['image/jpeg'], minAspect: 4 / 5, maxAspect: 1.91 },
+    threads: { maxBytes: 8 * MB, maxDimension: 1440, formats: ['image/jpeg', 'image/png'] },
+};
+
+// Still images the backend can decode; GIFs are left alone to keep animation
+const TRANSFORMABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+type DerivedImage = Omit<MediaDerivative, 'platform'>;
+
+export class MediaTransformService {
+    /**
+     * Whether images of this type can be converted to fit the platform
+     */
+    canTransform(platform: PlatformType, fileType: string): boolean {
+        return IMAGE_PROFILES[platform] !== undefined && TRANSFORMABLE_TYPES.includes(fileType);
+    }
+
+    /**
+     * Whether the file is known to fit the platform's profile already;
+     * files without probed metadata are always checked by the backend
+     */
+    needsTransform(platform: PlatformType, file: MediaFile): boolean {
+        const profile = IMAGE_PROFILES[platform];
+        if (!profile || !this.canTransform(platform, file.fileType)) return false;
+        if (!profile.formats.includes(file.fileType)) return true;
+        if (file.fileSize === undefined || !file.width || !file.height) return true;
+
+        const aspect = file.width / file.height;
+        return file.fileSize > profile.maxBytes
+            || Math.max(file.width, file.height) > profile.maxDimension
+            || (profile.minAspect !== undefined && aspect < profile.minAspect)
+            || (profile.maxAspect !== undefined && aspect > profile.maxAspect);
+    }
+
+    /**
+     * Swap the content's images for their derivatives for this platform,
+     * creating missing derivatives and recording them on the post
+     */
+    async prepareContent(postId: string, content: PostContent, platform: PlatformType): Promise<PostContent> {
+        if (!isTauri() || !content.media?.some((file) => this.needsTransform(platform, file))) {
+            return content;
+        }
+
+        const created: Record<string, MediaDerivative> = {};
+        const media: MediaFile[] = [];
+
+        for (const file of content.media) {
+            const existing = this.findDerivative(postId, file, platform);
+            const derivative = existing ?? await this.derive(file, platform);
+            if (derivative && !existing) created[file.id] = derivative;
+
+            media.push(derivative ? { ...file, ...this.toFileFields(derivative) } : file);
+        }
+
+        this.recordDerivatives(postId, platform, created);
+        return { ...content, media };
+    }
+
+    private findDerivative(postId: string, file: MediaFile, platform: PlatformType): MediaDerivative | undefined {
+        // The stored post may already hold a derivative made for another account
+        const stored = usePostStore.getState().posts
+            .find((p) => p.id === postId)?.media
+            ?.find((m) => m.id === file.id);
+        return (stored?.derivatives ?? file.derivatives)?.find((d) => d.platform === platform);
+    }
+
+    private async derive(file: MediaFile, platform: PlatformType): Promise<MediaDerivative | null> {
+        if (!this.needsTransform(platform, file)) return null;
+
+        const derived = await invoke<DerivedImage | null>('media_transform', {
+            path: file.filePath,
+            outputName: `${file.id}-${platform}`,
+            options: IMAGE_PROFILES[platform],
+        });
+        return derived ? { ...derived, platform } : null;
+    }
+
+    private toFileFields(derivative: MediaDerivative): Partial<MediaFile> {
+        const { filePath, fileType, fileSize, width, height } = derivative;
+        return { filePath, fileType, fileSize, width, height };
+    }
+
+    private recordDerivatives(postId: string, platform: PlatformType, created: Record<string, MediaDerivative>): void {
+        if (Object.keys(created).length === 0) return;
+
+        const { posts, updatePost } = usePostStore.getState();
+        const post = posts.find((p) => p.id === postId);
+        if (!post?.media) return;
+
+        updatePost(postId, {
+            media: post.media.map((file) => {
+                const derivative = created[file.id];
+                if (!derivative) return file;
+                const others = (file.derivatives ?? []).filter((d) => d.platform !== platform);
+                return { ...file, derivatives: [...others, derivative] };
+            }),
+        });
+    }
+}
+
+export const mediaTransformService = new MediaTransformService();
@@ -0,0 +1,240 @@
+/**
+ * OAuth Service
+ *
+ * Desktop OAuth flow for X, YouTube, TikTok, Instagram, Threads and Mastodon. The
+ * Tauri backend listens on a temporary 127.0.0.1 port, the authorization
+ * page opens in the system browser, and the returned code is exchanged for
+ * tokens once `state` has been validated.
+ */
+
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { listen } from '@tauri-apps/api/event';
+import { openUrl } from '@tauri-apps/plugin-opener';
+import { XService } from './x';
+import { YouTubeService } from './youtube';
+import { TikTokService } from './tiktok';
+import { InstagramService } from './instagram';
+import { ThreadsService } from './threads';
+import { MastodonService, normalizeInstanceUrl } from './mastodon';
+import type { MastodonApp } from './mastodon';
+import { createPlatformAdapter } from './registry';
+import type { AccountCredentials, AuthResult, PlatformType } from '../types';
+
+// Must match OAUTH_CALLBACK_EVENT in src-tauri/src/oauth.rs
+const OAUTH_CALLBACK_EVENT = 'oauth://callback';
+
+// Platforms connected with a developer app's client ID and secret
+export type OAuthPlatform = Exclude<PlatformType, 'bluesky' | 'mastodon'>;
+
+export interface OAuthClientConfig {
+    clientId: string;
+    clientSecret?: string;
+    // Fixed loopback port for providers that only accept a registered redirect URI
+    port?: number;
+}
+
+export interface OAuthConnectResult extends AuthResult {
+    credentials?: AccountCredentials;
+}
+
+interface OAuthCallback {
+    port: number;
+    code: string | null;
+    state: string | null;
+    error: string | null;
+}
+
+export class OAuthService {
+    /**
+     * Redirect URI served by the loopback listener on the given port
+     */
+    getRedirectUri(port: number): string {
+        return `http://127.0.0.1:${port}/callback`;
+    }
+
+    /**
+     * Run the browser authorization step and return the validated code
+     */
+    async authorize(
+        buildUrl: (redirectUri: string, state: string) => string | Promise<string>,
+        port?: number
+    ): Promise<{ code: string; redirectUri: string }> {
+        if (!isTauri()) {
+            throw new Error('OAuth login requires the desktop app');
+        }
+
+        const state = crypto.randomUUID();
+        let boundPort: number | null = null;
+        let resolveCallback: (callback: OAuthCallback) => void = () => {};
+        const callbackReceived = new Promise<OAuthCallback>((resolve) => {
+            resolveCallback = resolve;
+        });
+
+        // Subscribe before the browser opens so the redirect cannot be missed
+        const unlisten = await listen<OAuthCallback>(OAUTH_CALLBACK_EVENT, (event) => {
+            if (event.payload.port === boundPort) resolveCallback(event.payload);
+        });
+
+        try {
+            boundPort = await invoke<number>('oauth_listen', { port: port ?? null });
+            const redirectUri = this.getRedirectUri(boundPort);
+
+            await openUrl(await buildUrl(redirectUri, state));
+            const callback = await callbackReceived;
+
+            if (callback.error) {
+                throw new Error(`Authorization failed: ${callback.error}`);
+            }
+            if (callback.state !== state) {
+                throw new Error('OAuth state mismatch');
+            }
+            if (!callback.code) {
+                throw new Error('No authorization code received');
+            }
+
+            return { code: callback.code, redirectUri };
+        } finally {
+            unlisten();
+        }
+    }
+
+    /**
+     * Connect an account: authorize, exchange the code, fetch the profile and
+     * return it together with the credentials to store in the vault
+     */
+    async connect(platform: OAuthPlatform, config: OAuthClientConfig): Promise<OAuthConnectResult> {
+        const { clientId, clientSecret = '', port } = config;
+
+        try {
+            const tokens = await this.exchange(platform, clientId, clientSecret, port);
+            if (!tokens.success) return tokens;
+
+            const credentials: AccountCredentials = {
+                accessToken: tokens.accessToken,
+                refreshToken: tokens.refreshToken,
+                expiresAt: tokens.expiresAt,
+                userId: tokens.userId,
+                clientId,
+                clientSecret: clientSecret || undefined,
+            };
+
+            // The adapters' authenticate() loads the full profile (name, avatar).
+            // A throwaway adapter keeps this from touching any account's session.
+            const profile = await createPlatformAdapter(platform).authenticate(credentials);
+            if (!profile.success) return profile;
+
+            return {
+                ...tokens,
+                ...profile,
+                expiresAt: tokens.expiresAt,
+                credentials: { ...credentials, userId: profile.userId ?? tokens.userId },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Authorization failed',
+            };
+        }
+    }
+
+    /**
+     * Connect a Mastodon account: register an app on the instance for the
+     * loopback redirect URI, authorize, then fetch the profile
+     */
+    async connectMastodon(instanceUrl: string, port?: number): Promise<OAuthConnectResult> {
+        try {
+            const instance = normalizeInstanceUrl(instanceUrl);
+            // Registration and the exchange run on a client of their own
+            const mastodon = new MastodonService();
+            let app: MastodonApp = { clientId: '', clientSecret: '' };
+
+            // The app is registered once the listener's port (and so the redirect URI) is known
+            const { code, redirectUri } = await this.authorize(async (uri, state) => {
+                app = await mastodon.registerApp(instance, uri);
+                return mastodon.getAuthorizationUrl(instance, app.clientId, uri, state);
+            }, port);
+
+            const tokens = await mastodon.exchangeCodeForTokens(
+                instance, code, app.clientId, app.clientSecret, redirectUri
+            );
+            if (!tokens.success) return tokens;
+
+            const credentials: AccountCredentials = {
+                accessToken: tokens.accessToken,
+                clientId: app.clientId,
+                clientSecret: app.clientSecret,
+                serviceUrl: instance,
+            };
+
+            const profile = await createPlatformAdapter('mastodon').authenticate(credentials);
+            if (!profile.success) return profile;
+
+            return {
+                ...tokens,
+                ...profile,
+                credentials: { ...credentials, userId: profile.userId },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Authorization failed',
+            };
+        }
+    }
+
+    private async exchange(
+        platform: OAuthPlatform,
+        clientId: string,
+        clientSecret: string,
+        port?: number
+    ): Promise<AuthResult> {
+        // Exchanging a code stores the tokens on the service, so each flow gets
+        // its own instance rather than a singleton an account might be using
+        switch (platform) {
+            case 'x': {
+                const xService = new XService();
+                let codeVerifier = '';
+                const { code, redirectUri } = await this.authorize(async (uri, state) => {
+                    const auth = await xService.getAuthorizationUrl(clientId, uri, state);
+                    codeVerifier = auth.codeVerifier;
+                    return auth.url;
+                }, port);
+                return xService.exchangeCodeForTokens(code, clientId, clientSecret, redirectUri, codeVerifier);
+            }
+            case 'youtube': {
+                const youtubeService = new YouTubeService();
+                const { code, redirectUri } = await this.authorize(
+                    (uri, state) => youtubeService.getAuthorizationUrl(clientId, uri, state),
+                    port
+                );
+                return youtubeService.exchangeCodeForTokens(code, clientId, clientSecret, redirectUri);
+            }
+            case 'tiktok': {
+                const tiktokService = new TikTokService();
+                const { code, redirectUri } = await this.authorize(
+                    (uri, state) => tiktokService.getAuthorizationUrl(clientId, uri, state),
+                    port
+                );
+                return tiktokService.exchangeCodeForTokens(code, clientId, clientSecret, redirectUri);
+            }
+            case 'instagram': {
+                const instagramService = new InstagramService();
+                const { code, redirectUri } = await this.authorize(
+                    (uri, state) => instagramService.getAuthorizationUrl(clientId, uri, state),
+                    port
+                );
+                return instagramService.exchangeCodeForTokens(code, clientId, clientSecret, redirectUri);
+            }
+            case 'threads': {
+                const threadsService = new ThreadsService();
+                const { code, redirectUri } = await this.authorize(
+                    (uri, state) => threadsService.getAuthorizationUrl(clientId, uri, state),
+                    port
+                );
+                return threadsService.exchangeCodeForToken(code, clientId, clientSecret, redirectUri);
+            }
+        }
+    }
+}
+
+export const oauthService = new OAuthService();
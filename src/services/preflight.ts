@@ -0,0 +1,368 @@
+/**
+ * Pre-flight Validator
+ *
+ * Runs every publishing rule (length, media, aspect ratio, hashtags, title,
+ * account requirements and session state) against the content one account
+ * would receive, so the composer can show a per-target checklist and the
+ * dispatcher can refuse targets with blocking errors.
+ */
+
+import { useAccountStore, useAppStore } from '../stores';
+import { getTextLength } from '../lib/textLength';
+import { supportsThreads } from '../lib/thread';
+import { getAccountAdapter } from './registry';
+import { mediaTransformService } from './mediaTransform';
+import { isRemoteMedia, mediaHostService } from './mediaHost';
+import {
+    PLATFORM_CONFIGS,
+    type Account,
+    type AccountSessionStatus,
+    type PlatformCapabilities,
+    type PlatformConfig,
+    type PlatformType,
+    type PostContent,
+} from '../types';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightIssue {
+    rule: string;
+    severity: PreflightSeverity;
+    message: { ja: string; en: string };
+}
+
+export interface PreflightReport {
+    accountId: string;
+    platform: PlatformType;
+    issues: PreflightIssue[];
+    // True when any issue is an error
+    blocking: boolean;
+}
+
+interface RuleContext {
+    platform: PlatformType;
+    config: PlatformConfig;
+    capabilities: PlatformCapabilities;
+    content: PostContent;
+    sessionStatus?: AccountSessionStatus;
+    requireAltText: boolean;
+}
+
+type PreflightRule = (ctx: RuleContext) => PreflightIssue[];
+
+const MB = 1024 * 1024;
+
+// Upload size limits in bytes, per media kind
+const MAX_FILE_SIZE: Record<PlatformType, { image?: number; video?: number }> = {
+    bluesky: { image: 1_000_000, video: 100 * MB },
+    x: { image: 5 * MB, video: 512 * MB },
+    instagram: { image: 8 * MB, video: 300 * MB },
+    threads: { image: 8 * MB, video: 1024 * MB },
+    tiktok: { video: 4096 * MB },
+    youtube: { video: 256 * 1024 * MB },
+    // Mastodon 4.x defaults; instances may lower them
+    mastodon: { image: 16 * MB, video: 99 * MB },
+};
+
+// Instagram feed images must fall between 4:5 portrait and 1.91:1 landscape
+const INSTAGRAM_ASPECT_RATIO = { min: 4 / 5, max: 1.91 };
+
+// Hashtags beyond these counts are rejected (error) or ignored (warning)
+const HASHTAG_LIMITS: Partial<Record<PlatformType, { max: number; severity: PreflightSeverity }>> = {
+    instagram: { max: 30, severity: 'error' },
+    youtube: { max: 15, severity: 'warning' },
+    threads: { max: 1, severity: 'warning' },
+};
+
+const YOUTUBE_TITLE_MAX = 100;
+
+// Platforms where a video or GIF cannot be combined with other media
+const SINGLE_MOTION_MEDIA: PlatformType[] = ['x', 'mastodon'];
+
+// Platforms where a video cannot be combined with other media (GIFs post as images)
+const SINGLE_VIDEO_MEDIA: PlatformType[] = ['bluesky'];
+
+// Platforms that accept image descriptions, with their length limits
+const ALT_TEXT_MAX: Partial<Record<PlatformType, number>> = {
+    bluesky: 2000,
+    x: 1000,
+    instagram: 1000,
+    threads: 1000,
+    mastodon: 1500,
+};
+
+// Platforms that fetch images from a public URL; Threads falls back to text only
+const MEDIA_HOST_SEVERITY: Partial<Record<PlatformType, PreflightSeverity>> = {
+    instagram: 'error',
+    threads: 'warning',
+};
+
+function issue(rule: string, severity: PreflightSeverity, ja: string, en: string): PreflightIssue {
+    return { rule, severity, message: { ja, en } };
+}
+
+function formatSize(bytes: number): string {
+    return bytes >= 1024 * MB ? `${Math.round(bytes / (1024 * MB))}GB` : `${Math.round(bytes / MB)}MB`;
+}
+
+const checkSession: PreflightRule = ({ config, sessionStatus }) => {
+    switch (sessionStatus) {
+        case 'needs_reauth':
+            return [issue('session', 'error',
+                `${config.name}に再ログインが必要です`,
+                `${config.name} needs you to log in again`)];
+        case 'revoked':
+            return [issue('session', 'error',
+                `${config.name}の連携が取り消されています。再接続してください`,
+                `Access to ${config.name} was revoked. Please reconnect`)];
+        case 'restoring':
+            return [issue('session', 'warning',
+                'セッションを復元しています',
+                'Restoring the session')];
+        default:
+            return [];
+    }
+};
+
+const checkText: PreflightRule = ({ platform, config, capabilities, content }) => {
+    const issues: PreflightIssue[] = [];
+    const hasMedia = (content.media?.length ?? 0) > 0;
+
+    if (capabilities.text && !content.text.trim() && !hasMedia) {
+        issues.push(issue('text.empty', 'error', '本文を入力してください', 'Text cannot be empty'));
+    }
+
+    // Mastodon counts the content warning toward the limit
+    const spoilerText = (content.platformSpecific?.spoilerText as string | undefined) ?? '';
+
+    const parts = content.thread ?? [content.text];
+    parts.forEach((part, index) => {
+        const length = getTextLength(index === 0 ? spoilerText + part : part, platform);
+        if (length <= config.maxTextLength) return;
+
+        const where = parts.length > 1 ? ` (${index + 1}/${parts.length})` : '';
+        const hint = supportsThreads(platform) && !content.thread;
+        issues.push(issue('text.length', 'error',
+            `文字数が上限を超えています${where}: ${length}/${config.maxTextLength}${hint ? '（スレッド分割を使えます）' : ''}`,
+            `Text exceeds the limit${where}: ${length}/${config.maxTextLength}${hint ? ' (thread splitting is available)' : ''}`));
+    });
+
+    return issues;
+};
+
+const checkMedia: PreflightRule = ({ platform, config, capabilities, content }) => {
+    const issues: PreflightIssue[] = [];
+    const media = content.media ?? [];
+    const videos = media.filter((m) => m.fileType.startsWith('video/'));
+
+    if (capabilities.requiresMedia) {
+        if (capabilities.video && !capabilities.images && videos.length === 0) {
+            issues.push(issue('media.required', 'error',
+                `${config.name}には動画が必要です`,
+                `${config.name} requires a video`));
+        } else if (media.length === 0) {
+            issues.push(issue('media.required', 'error',
+                `${config.name}には画像または動画が必要です`,
+                `${config.name} requires an image or video`));
+        }
+    }
+
+    if (media.length > config.maxMediaCount) {
+        issues.push(issue('media.count', 'error',
+            `添付できるメディアは${config.maxMediaCount}件までです（${media.length}件）`,
+            `Up to ${config.maxMediaCount} media files allowed (${media.length} attached)`));
+    }
+
+    const hasMotion = media.some((m) => m.fileType.startsWith('video/') || m.fileType === 'image/gif');
+    if (SINGLE_MOTION_MEDIA.includes(platform) && hasMotion && media.length > 1) {
+        issues.push(issue('media.count', 'error',
+            `${config.name}では動画・GIFは1件だけ添付できます（他のメディアと併用不可）`,
+            `${config.name} allows a single video or GIF with no other media`));
+    }
+
+    const hasVideo = media.some((m) => m.fileType.startsWith('video/'));
+    if (SINGLE_VIDEO_MEDIA.includes(platform) && hasVideo && media.length > 1) {
+        issues.push(issue('media.count', 'error',
+            `${config.name}では動画は1件だけ添付できます（他のメディアと併用不可）`,
+            `${config.name} allows a single video with no other media`));
+    }
+
+    const limits = MAX_FILE_SIZE[platform];
+    for (const file of media) {
+        // Images outside the platform's limits get a fitting derivative at publish time
+        if (mediaTransformService.needsTransform(platform, file)) {
+            issues.push(issue('media.transform', 'warning',
+                `${file.fileName}: ${config.name}向けに自動でリサイズ・変換されます`,
+                `${file.fileName}: will be resized or converted for ${config.name}`));
+            continue;
+        }
+
+        if (!config.supportedMediaTypes.includes(file.fileType)) {
+            issues.push(issue('media.type', 'error',
+                `${file.fileName}: ${config.name}は${file.fileType}に対応していません`,
+                `${file.fileName}: ${config.name} does not support ${file.fileType}`));
+            continue;
+        }
+
+        const maxSize = file.fileType.startsWith('video/') ? limits.video : limits.image;
+        if (file.fileSize && maxSize && file.fileSize > maxSize) {
+            issues.push(issue('media.size', 'error',
+                `${file.fileName}: ファイルサイズが上限（${formatSize(maxSize)}）を超えています`,
+                `${file.fileName}: exceeds the ${formatSize(maxSize)} size limit`));
+        }
+
+        if (file.duration && config.maxVideoLength && file.duration > config.maxVideoLength) {
+            issues.push(issue('media.duration', 'error',
+                `${file.fileName}: 動画が長すぎます（最大${config.maxVideoLength}秒）`,
+                `${file.fileName}: video is longer than ${config.maxVideoLength} seconds`));
+        }
+    }
+
+    return issues;
+};
+
+const checkAspectRatio: PreflightRule = ({ platform, content }) => {
+    const issues: PreflightIssue[] = [];
+
+    for (const file of content.media ?? []) {
+        if (!file.width || !file.height) continue;
+        const ratio = file.width / file.height;
+
+        if (platform === 'instagram' && file.fileType.startsWith('image/')
+            && !mediaTransformService.needsTransform(platform, file)
+            && (ratio < INSTAGRAM_ASPECT_RATIO.min || ratio > INSTAGRAM_ASPECT_RATIO.max)) {
+            issues.push(issue('media.aspectRatio', 'error',
+                `${file.fileName}: 縦横比は4:5〜1.91:1の範囲にしてください`,
+                `${file.fileName}: aspect ratio must be between 4:5 and 1.91:1`));
+        }
+
+        if (platform === 'tiktok' && file.fileType.startsWith('video/') && ratio > 1) {
+            issues.push(issue('media.aspectRatio', 'warning',
+                `${file.fileName}: TikTokでは縦長（9:16）の動画が推奨されます`,
+                `${file.fileName}: TikTok favours vertical (9:16) video`));
+        }
+    }
+
+    return issues;
+};
+
+const checkHashtags: PreflightRule = ({ platform, config, content }) => {
+    const limit = HASHTAG_LIMITS[platform];
+    if (!limit) return [];
+
+    const tags = new Set([
+        ...(content.text.match(/#[^\s#]+/gu) ?? []).map((tag) => tag.slice(1)),
+        ...(content.hashtags ?? []).map((tag) => tag.replace(/^#/, '')),
+    ]);
+    if (tags.size <= limit.max) return [];
+
+    return [issue('hashtags', limit.severity,
+        `${config.name}のハッシュタグは${limit.max}個までです（${tags.size}個）`,
+        `${config.name} allows up to ${limit.max} hashtags (${tags.size} used)`)];
+};
+
+const checkTitle: PreflightRule = ({ platform, content }) => {
+    if (platform !== 'youtube') return [];
+
+    const title = (content.platformSpecific?.title as string | undefined) || content.text.split('\n')[0];
+    if (!title.trim()) {
+        return [issue('title', 'error', 'YouTubeにはタイトルが必要です', 'YouTube requires a title')];
+    }
+    if ([...title].length > YOUTUBE_TITLE_MAX) {
+        return [issue('title', 'error',
+            `タイトルは${YOUTUBE_TITLE_MAX}文字までです`,
+            `Title exceeds ${YOUTUBE_TITLE_MAX} characters`)];
+    }
+    return [];
+};
+
+// Missing descriptions only block posting when the setting asks for it
+const checkAltText: PreflightRule = ({ platform, content, requireAltText }) => {
+    const max = ALT_TEXT_MAX[platform];
+    if (!max) return [];
+
+    const issues: PreflightIssue[] = [];
+    for (const file of content.media ?? []) {
+        if (!file.fileType.startsWith('image/')) continue;
+
+        const altText = file.altText?.trim();
+        if (!altText) {
+            issues.push(issue('media.altText', requireAltText ? 'error' : 'warning',
+                `${file.fileName}: 代替テキストがありません`,
+                `${file.fileName}: no alt text`));
+        } else if ([...altText].length > max) {
+            issues.push(issue('media.altText', 'error',
+                `${file.fileName}: 代替テキストは${max}文字までです`,
+                `${file.fileName}: alt text exceeds ${max} characters`));
+        }
+    }
+    return issues;
+};
+
+const checkMediaHost: PreflightRule = ({ platform, config, content }) => {
+    const severity = MEDIA_HOST_SEVERITY[platform];
+    if (!severity || mediaHostService.isConfigured()) return [];
+
+    const local = (content.media ?? [])
+        .filter((m) => m.fileType.startsWith('image/') && !isRemoteMedia(m));
+    if (local.length === 0) return [];
+
+    return [issue('media.host', severity,
+        `${config.name}にローカル画像を投稿するには、設定でメディアホストを設定してください`,
+        `Set up a media host in Settings to post local images to ${config.name}`)];
+};
+
+// Only business accounts can sign in, so a live session proves the requirement
+const checkBusinessAccount: PreflightRule = ({ config, sessionStatus }) => {
+    if (!config.requiresBusinessAccount || sessionStatus === 'active') return [];
+
+    return [issue('businessAccount', 'warning',
+        `${config.name}への投稿にはビジネスまたはクリエイターアカウントが必要です`,
+        `Publishing to ${config.name} requires a business or creator account`)];
+};
+
+const RULES: PreflightRule[] = [
+    checkSession,
+    checkText,
+    checkMedia,
+    checkAspectRatio,
+    checkAltText,
+    checkMediaHost,
+    checkHashtags,
+    checkTitle,
+    checkBusinessAccount,
+];
+
+export class PreflightValidator {
+    /**
+     * Check the content one account would receive against every rule
+     */
+    validate(account: Account, content: PostContent): PreflightReport {
+        // Servers like Mastodon instances report their own limits
+        const capabilities = getAccountAdapter(account).capabilities;
+        const defaults = PLATFORM_CONFIGS[account.platform];
+        const ctx: RuleContext = {
+            platform: account.platform,
+            config: {
+                ...defaults,
+                maxTextLength: capabilities.maxTextLength ?? defaults.maxTextLength,
+                maxMediaCount: capabilities.maxMediaCount ?? defaults.maxMediaCount,
+            },
+            capabilities,
+            content,
+            sessionStatus: useAccountStore.getState().sessionStatuses[account.id],
+            requireAltText: useAppStore.getState().requireAltText,
+        };
+
+        const issues = RULES.flatMap((rule) => rule(ctx));
+
+        return {
+            accountId: account.id,
+            platform: account.platform,
+            issues,
+            blocking: issues.some((i) => i.severity === 'error'),
+        };
+    }
+}
+
+export const preflightValidator = new PreflightValidator();
@@ -0,0 +1,94 @@
+/**
+ * Platform Adapter Registry
+ *
+ * Maps each PlatformType to the service implementing PlatformAdapter,
+ * so callers can dispatch without special-casing platforms.
+ *
+ * Adapters hold one session each, so anything acting for an account goes
+ * through the account client pool: every connected account gets its own
+ * adapter instance and two accounts on one platform never share a token.
+ * The platform singletons remain for platform-wide data (capabilities)
+ * and for login flows that run before an account exists.
+ */
+
+import type { Account, PlatformAdapter, PlatformType } from '../types';
+import { BlueskyService, blueskyService } from './bluesky';
+import { YouTubeService, youtubeService } from './youtube';
+import { InstagramService, instagramService } from './instagram';
+import { ThreadsService, threadsService } from './threads';
+import { TikTokService, tiktokService } from './tiktok';
+import { XService, xService } from './x';
+import { MastodonService, mastodonService } from './mastodon';
+
+export const platformAdapters: Record<PlatformType, PlatformAdapter> = {
+    bluesky: blueskyService,
+    youtube: youtubeService,
+    instagram: instagramService,
+    threads: threadsService,
+    tiktok: tiktokService,
+    x: xService,
+    mastodon: mastodonService,
+};
+
+const adapterFactories: Record<PlatformType, () => PlatformAdapter> = {
+    bluesky: () => new BlueskyService(),
+    youtube: () => new YouTubeService(),
+    instagram: () => new InstagramService(),
+    threads: () => new ThreadsService(),
+    tiktok: () => new TikTokService(),
+    x: () => new XService(),
+    mastodon: () => new MastodonService(),
+};
+
+/**
+ * Get the adapter for a platform
+ */
+export function getPlatformAdapter(platform: PlatformType): PlatformAdapter {
+    return platformAdapters[platform];
+}
+
+/**
+ * Create a fresh adapter with no session
+ */
+export function createPlatformAdapter(platform: PlatformType): PlatformAdapter {
+    return adapterFactories[platform]();
+}
+
+export class AccountClientPool {
+    private clients = new Map<string, PlatformAdapter>();
+
+    /**
+     * Get the account's adapter, creating it on first use
+     */
+    get(account: Account): PlatformAdapter {
+        const existing = this.clients.get(account.id);
+        if (existing && existing.platform === account.platform) return existing;
+
+        const client = createPlatformAdapter(account.platform);
+        this.clients.set(account.id, client);
+        return client;
+    }
+
+    /**
+     * Log the account's adapter out and drop it
+     */
+    release(accountId: string): void {
+        this.clients.get(accountId)?.logout();
+        this.clients.delete(accountId);
+    }
+
+    clear(): void {
+        for (const accountId of [...this.clients.keys()]) {
+            this.release(accountId);
+        }
+    }
+}
+
+export const accountClients = new AccountClientPool();
+
+/**
+ * Get the adapter holding the account's own session
+ */
+export function getAccountAdapter(account: Account): PlatformAdapter {
+    return accountClients.get(account);
+}
@@ -3,26 +3,40 @@
  * 
  * Manages scheduled posts and their execution timing.
  * Uses a polling-based approach that can work in both foreground and background.
+ * Jobs live in the persisted useScheduleStore, so the queue survives restarts.
+ * Inside Tauri, the due-job loop runs natively in the Rust backend, which
+ * emits an event when a job is due; the browser build falls back to polling.
  */
 
-import { usePostStore } from '../stores';
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { listen, type UnlistenFn } from '@tauri-apps/api/event';
+import { useAppStore, usePostStore, useScheduleStore } from '../stores';
+import type { ScheduledPost } from '../stores';
+import { postDispatcher } from './dispatcher';
 import type { Post, CrossPostTarget } from '../types';
 
-export interface ScheduledJob {
+export type ScheduledJob = ScheduledPost;
+
+// Job shape mirrored to the native scheduler
+interface NativeJob {
     id: string;
     postId: string;
-    scheduledAt: Date;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
-    retryCount: number;
-    maxRetries: number;
-    lastError?: string;
+    scheduledAtMs: number;
 }
 
+const JOB_DUE_EVENT = 'scheduler://job-due';
+
 export class SchedulerService {
-    private jobs: Map<string, ScheduledJob> = new Map();
     private checkInterval: number | null = null;
+    private unlistenJobDue: UnlistenFn | null = null;
+    private unsubscribeStore: (() => void) | null = null;
+    private lastNativeSync = '';
     private isRunning = false;
+    private isProcessing = false;
     private readonly CHECK_INTERVAL_MS = 30000; // Check every 30 seconds
+    private readonly MISSED_GRACE_MS = 5 * 60 * 1000; // Overdue by more than this counts as missed
+    private readonly RETRY_DELAY_MS = 5 * 60 * 1000;
+    private readonly MAX_PROCESSING_POLLS = 6; // Re-checks of an upload the platform is still processing
 
     /**
      * Start the scheduler
@@ -31,9 +45,15 @@ export class SchedulerService {
         if (this.isRunning) return;
 
         this.isRunning = true;
-        this.checkInterval = window.setInterval(() => {
-            this.processScheduledPosts();
-        }, this.CHECK_INTERVAL_MS);
+        this.rehydrateJobs();
+
+        if (isTauri()) {
+            this.startNative();
+        } else {
+            this.checkInterval = window.setInterval(() => {
+                this.processScheduledPosts();
+            }, this.CHECK_INTERVAL_MS);
+        }
 
         // Initial check
         this.processScheduledPosts();
@@ -48,70 +68,182 @@ export class SchedulerService {
             window.clearInterval(this.checkInterval);
             this.checkInterval = null;
         }
+        this.unlistenJobDue?.();
+        this.unlistenJobDue = null;
+        this.unsubscribeStore?.();
+        this.unsubscribeStore = null;
+        this.lastNativeSync = '';
         this.isRunning = false;
         console.log('[Scheduler] Stopped');
     }
 
+    /**
+     * Hand due-job timing to the native scheduler and keep it in sync with the store
+     */
+    private startNative(): void {
+        listen<NativeJob>(JOB_DUE_EVENT, () => {
+            this.processScheduledPosts();
+        }).then((unlisten) => {
+            if (this.isRunning) {
+                this.unlistenJobDue = unlisten;
+            } else {
+                unlisten();
+            }
+        });
+
+        this.syncNativeJobs();
+        this.unsubscribeStore = useScheduleStore.subscribe(() => this.syncNativeJobs());
+    }
+
+    /**
+     * Mirror pending jobs to the native scheduler
+     */
+    private syncNativeJobs(): void {
+        const jobs: NativeJob[] = useScheduleStore.getState().getPendingScheduledPosts().map(job => ({
+            id: job.id,
+            postId: job.postId,
+            scheduledAtMs: new Date(job.scheduledAt).getTime(),
+        }));
+
+        const serialized = JSON.stringify(jobs);
+        if (serialized === this.lastNativeSync) return;
+        this.lastNativeSync = serialized;
+
+        invoke('scheduler_sync_jobs', { jobs }).catch((error) => {
+            console.error('[Scheduler] Failed to sync native jobs', error);
+        });
+    }
+
+    /**
+     * Recover persisted jobs after a restart and apply the missed-post policy
+     * to jobs whose time passed while the app was closed
+     */
+    private rehydrateJobs(): void {
+        const scheduleStore = useScheduleStore.getState();
+        const { missedPostPolicy } = useAppStore.getState();
+        const cutoff = Date.now() - this.MISSED_GRACE_MS;
+
+        for (const job of scheduleStore.scheduledPosts) {
+            // The app was closed mid-run; the dispatcher skips targets that already succeeded
+            if (job.status === 'processing') {
+                scheduleStore.updateScheduledPost(job.id, { status: 'pending' });
+            } else if (job.status !== 'pending') {
+                continue;
+            }
+
+            if (new Date(job.scheduledAt).getTime() >= cutoff) continue;
+
+            // Already published and only waiting on the platform, so not a missed post
+            if (this.getTargetsForPost(job.postId).some(t => t.status === 'processing')) continue;
+
+            if (missedPostPolicy === 'skip') {
+                this.skipJob(job.id);
+            } else if (missedPostPolicy === 'ask') {
+                scheduleStore.updateScheduledPost(job.id, { status: 'missed' });
+                console.log(`[Scheduler] Job ${job.id} was missed while the app was closed`);
+            }
+        }
+    }
+
     /**
      * Add a scheduled post
      */
     schedulePost(post: Post, scheduledAt: Date): ScheduledJob {
-        const job: ScheduledJob = {
-            id: crypto.randomUUID(),
-            postId: post.id,
-            scheduledAt,
-            status: 'pending',
-            retryCount: 0,
-            maxRetries: 3,
-        };
-
-        this.jobs.set(job.id, job);
+        const job = useScheduleStore.getState().addScheduledPost(post.id, scheduledAt);
+        usePostStore.getState().updatePost(post.id, { status: 'scheduled', scheduledAt });
         console.log(`[Scheduler] Scheduled post ${post.id} for ${scheduledAt.toISOString()}`);
 
         return job;
     }
 
+    /**
+     * Check back on an immediate post whose upload a platform is still
+     * processing. The job resumes those targets from their checkpoint; with
+     * a single attempt, targets that already failed are not retried.
+     */
+    followUpProcessing(post: Post): ScheduledJob {
+        const scheduledAt = new Date(Date.now() + this.RETRY_DELAY_MS);
+        const job = useScheduleStore.getState().addScheduledPost(post.id, scheduledAt, 1);
+        console.log(`[Scheduler] Checking post ${post.id} for processing uploads at ${scheduledAt.toISOString()}`);
+
+        return job;
+    }
+
     /**
      * Cancel a scheduled post
      */
     cancelScheduledPost(jobId: string): boolean {
-        const job = this.jobs.get(jobId);
-        if (job && job.status === 'pending') {
-            this.jobs.delete(jobId);
+        const scheduleStore = useScheduleStore.getState();
+        const job = scheduleStore.scheduledPosts.find(j => j.id === jobId);
+        if (job && (job.status === 'pending' || job.status === 'missed')) {
+            scheduleStore.cancelScheduledPost(jobId);
             console.log(`[Scheduler] Cancelled job ${jobId}`);
             return true;
         }
         return false;
     }
 
+    /**
+     * Resolve a missed job by posting it now or skipping it
+     */
+    resolveMissedJob(jobId: string, action: 'post' | 'skip'): void {
+        const job = useScheduleStore.getState().scheduledPosts.find(j => j.id === jobId);
+        if (!job || job.status !== 'missed') return;
+
+        if (action === 'skip') {
+            this.skipJob(jobId);
+            return;
+        }
+
+        useScheduleStore.getState().updateScheduledPost(jobId, { status: 'pending' });
+        this.processScheduledPosts();
+    }
+
+    /**
+     * Skip a job and return its post to drafts so it can be rescheduled
+     */
+    private skipJob(jobId: string): void {
+        const scheduleStore = useScheduleStore.getState();
+        const job = scheduleStore.scheduledPosts.find(j => j.id === jobId);
+        if (!job) return;
+
+        scheduleStore.updateScheduledPost(jobId, { status: 'skipped' });
+        usePostStore.getState().updatePost(job.postId, { status: 'draft' });
+        console.log(`[Scheduler] Skipped job ${jobId}`);
+    }
+
     /**
      * Get all scheduled jobs
      */
     getScheduledJobs(): ScheduledJob[] {
-        return Array.from(this.jobs.values()).filter(job => job.status === 'pending');
+        return useScheduleStore.getState().getPendingScheduledPosts();
     }
 
     /**
      * Get jobs for a specific date range
      */
     getJobsInRange(start: Date, end: Date): ScheduledJob[] {
-        return Array.from(this.jobs.values()).filter(job => {
-            const jobTime = new Date(job.scheduledAt).getTime();
-            return jobTime >= start.getTime() && jobTime <= end.getTime();
-        });
+        return useScheduleStore.getState().getScheduledPostsInRange(start, end);
     }
 
     /**
      * Process scheduled posts that are due
      */
     private async processScheduledPosts(): Promise<void> {
-        const now = new Date();
-        const duePosts = Array.from(this.jobs.values()).filter(
-            job => job.status === 'pending' && new Date(job.scheduledAt) <= now
-        );
+        if (this.isProcessing) return;
+        this.isProcessing = true;
+
+        try {
+            const now = new Date();
+            const duePosts = useScheduleStore.getState().scheduledPosts.filter(
+                job => job.status === 'pending' && new Date(job.scheduledAt) <= now
+            );
 
-        for (const job of duePosts) {
-            await this.executeJob(job);
+            for (const job of duePosts) {
+                await this.executeJob(job);
+            }
+        } finally {
+            this.isProcessing = false;
         }
     }
 
@@ -119,7 +251,8 @@ export class SchedulerService {
      * Execute a scheduled job
      */
     private async executeJob(job: ScheduledJob): Promise<void> {
-        job.status = 'processing';
+        const scheduleStore = useScheduleStore.getState();
+        scheduleStore.updateScheduledPost(job.id, { status: 'processing' });
         console.log(`[Scheduler] Executing job ${job.id} for post ${job.postId}`);
 
         try {
@@ -135,71 +268,105 @@ export class SchedulerService {
             postStore.updatePost(job.postId, { status: 'posting' });
 
             // Execute cross-posting for each target
-            // Note: In a full implementation, this would call the platform services
-            const results = await this.executePostToAllTargets(post);
+            await this.executePostToAllTargets(post, job);
+
+            // A platform still processing an upload is checked again later without
+            // spending a retry, until the job runs out of processing polls
+            const processing = this.getTargetsForPost(post.id).filter(t => t.status === 'processing');
+            if (processing.length > 0 && job.processingPolls < this.MAX_PROCESSING_POLLS) {
+                const scheduledAt = new Date(Date.now() + this.RETRY_DELAY_MS);
+                scheduleStore.updateScheduledPost(job.id, {
+                    status: 'pending',
+                    scheduledAt,
+                    processingPolls: job.processingPolls + 1,
+                });
+                console.log(`[Scheduler] Job ${job.id} is processing, checking again at ${scheduledAt.toISOString()}`);
+                return;
+            }
+            for (const target of processing) {
+                postStore.updateCrossPostTarget(target.id, {
+                    status: 'failed',
+                    errorMessage: 'The platform did not finish processing the upload',
+                    retryCount: target.retryCount + 1,
+                });
+            }
 
-            // Check results
-            const allSuccess = results.every(r => r.success);
-            const anySuccess = results.some(r => r.success);
+            // Compute the post status from every target, including ones
+            // that already succeeded on a previous attempt
+            const targets = this.getTargetsForPost(post.id);
+            const anySuccess = targets.some(t => t.status === 'success');
+            const allSuccess = anySuccess && targets.every(t => t.status === 'success' || t.status === 'skipped');
 
             if (allSuccess) {
-                job.status = 'completed';
+                scheduleStore.updateScheduledPost(job.id, { status: 'posted', lastError: undefined });
                 postStore.updatePost(job.postId, {
                     status: 'posted',
                     postedAt: new Date(),
                 });
             } else if (anySuccess) {
-                job.status = 'completed';
-                postStore.updatePost(job.postId, { status: 'partial' });
+                scheduleStore.updateScheduledPost(job.id, { status: 'posted', lastError: undefined });
+                postStore.updatePost(job.postId, {
+                    status: 'partial',
+                    postedAt: new Date(),
+                });
             } else {
                 throw new Error('All platforms failed');
             }
 
             console.log(`[Scheduler] Job ${job.id} completed`);
         } catch (error) {
-            job.retryCount++;
-            job.lastError = error instanceof Error ? error.message : 'Unknown error';
+            const retryCount = job.retryCount + 1;
+            const lastError = error instanceof Error ? error.message : 'Unknown error';
 
-            if (job.retryCount >= job.maxRetries) {
-                job.status = 'failed';
+            if (retryCount >= job.maxRetries) {
+                scheduleStore.updateScheduledPost(job.id, { status: 'failed', retryCount, lastError });
                 const postStore = usePostStore.getState();
                 postStore.updatePost(job.postId, { status: 'failed' });
-                console.log(`[Scheduler] Job ${job.id} failed after ${job.retryCount} retries`);
+                console.log(`[Scheduler] Job ${job.id} failed after ${retryCount} retries`);
             } else {
-                job.status = 'pending';
                 // Schedule retry in 5 minutes
-                job.scheduledAt = new Date(Date.now() + 5 * 60 * 1000);
-                console.log(`[Scheduler] Job ${job.id} will retry at ${job.scheduledAt.toISOString()}`);
+                const scheduledAt = new Date(Date.now() + this.RETRY_DELAY_MS);
+                scheduleStore.updateScheduledPost(job.id, { status: 'pending', retryCount, lastError, scheduledAt });
+                console.log(`[Scheduler] Job ${job.id} will retry at ${scheduledAt.toISOString()}`);
             }
         }
     }
 
     /**
-     * Execute post to all targets
-     * Note: This is a placeholder. Full implementation would use platform services.
+     * Get the cross-post targets of a post
      */
-    private async executePostToAllTargets(post: Post): Promise<{ targetId: string; success: boolean; error?: string }[]> {
+    private getTargetsForPost(postId: string): CrossPostTarget[] {
+        return usePostStore.getState().crossPostTargets.filter(t => t.postId === postId);
+    }
+
+    /**
+     * Execute post to all targets that have not been posted yet and still
+     * have attempts left within the job's retry budget
+     */
+    private async executePostToAllTargets(
+        post: Post,
+        job: ScheduledJob
+    ): Promise<{ targetId: string; success: boolean; error?: string }[]> {
+        const allTargets = this.getTargetsForPost(post.id);
+        if (allTargets.length === 0) {
+            throw new Error('No cross-post targets');
+        }
+
+        const targets = allTargets.filter(t =>
+            t.status !== 'success' &&
+            t.status !== 'skipped' &&
+            !(t.status === 'failed' && t.retryCount >= job.maxRetries)
+        );
+
         const results: { targetId: string; success: boolean; error?: string }[] = [];
 
-        for (const target of post.crossPostTargets) {
-            try {
-                // Simulate posting delay
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                // In full implementation, call appropriate service:
-                // - blueskyService.createPost()
-                // - youtubeService.uploadVideo()
-                // - instagramService.createPost()
-                // - threadsService.createPost()
-
-                results.push({ targetId: target.id, success: true });
-            } catch (error) {
-                results.push({
-                    targetId: target.id,
-                    success: false,
-                    error: error instanceof Error ? error.message : 'Unknown error',
-                });
-            }
+        for (const target of targets) {
+            const result = await postDispatcher.publishToTarget(post, target);
+            results.push({
+                targetId: target.id,
+                success: result.success,
+                error: result.error,
+            });
         }
 
         return results;
@@ -216,7 +383,7 @@ export class SchedulerService {
      * Get pending jobs count
      */
     getPendingCount(): number {
-        return Array.from(this.jobs.values()).filter(j => j.status === 'pending').length;
+        return useScheduleStore.getState().getPendingScheduledPosts().length;
     }
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Session Manager
+ *
+ * Restores each connected account's platform session from the credential
+ * vault on startup, refreshing expired tokens, and records which accounts
+ * need the user to log in again.
+ */
+
+import { useAccountStore } from '../stores';
+import { getAccountAdapter } from './registry';
+import { credentialVault } from './credentialVault';
+import type { Account, AccountCredentials, AuthResult } from '../types';
+
+// Refresh instead of resuming when the token expires within this window
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export class SessionManager {
+    private restoring = new Map<string, Promise<boolean>>();
+
+    /**
+     * Restore sessions for every active account
+     */
+    async restoreAll(): Promise<void> {
+        const accounts = useAccountStore.getState().accounts.filter((a) => a.isActive);
+
+        // Each account has its own adapter, so sessions restore side by side
+        await Promise.all(accounts.map((account) => this.restore(account)));
+    }
+
+    /**
+     * Make sure the account's adapter has a session, restoring it if needed
+     */
+    async ensureSession(account: Account): Promise<boolean> {
+        if (getAccountAdapter(account).isAuthenticated()) return true;
+        return this.restore(account);
+    }
+
+    /**
+     * Restore one account's session; concurrent calls share the attempt
+     */
+    restore(account: Account): Promise<boolean> {
+        const pending = this.restoring.get(account.id);
+        if (pending) return pending;
+
+        const attempt = this.doRestore(account).finally(() => {
+            this.restoring.delete(account.id);
+        });
+        this.restoring.set(account.id, attempt);
+        return attempt;
+    }
+
+    private async doRestore(account: Account): Promise<boolean> {
+        const { setSessionStatus, updateAccount } = useAccountStore.getState();
+        setSessionStatus(account.id, 'restoring');
+
+        try {
+            const credentials = await credentialVault.load(account.id);
+            if (!credentials) {
+                setSessionStatus(account.id, 'needs_reauth');
+                return false;
+            }
+
+            const result = await this.authenticate(account, credentials);
+            if (!result.success) {
+                console.warn(`[SessionManager] ${account.platform}/${account.username}: ${result.error}`);
+                setSessionStatus(account.id, result.errorCode === 'AUTH_REVOKED' ? 'revoked' : 'needs_reauth');
+                return false;
+            }
+
+            const rotated = await credentialVault.rotate(account.id, result);
+            updateAccount(account.id, {
+                tokenExpiresAt: rotated.expiresAt,
+                lastSyncAt: new Date(),
+            });
+            setSessionStatus(account.id, 'active');
+            return true;
+        } catch (error) {
+            console.error('[SessionManager] Failed to restore session:', error);
+            setSessionStatus(account.id, 'needs_reauth');
+            return false;
+        }
+    }
+
+    /**
+     * Resume with the stored token, refreshing first when it has expired
+     */
+    private async authenticate(account: Account, credentials: AccountCredentials): Promise<AuthResult> {
+        const adapter = getAccountAdapter(account);
+        const expiresAt = credentials.expiresAt?.getTime();
+        const expired = expiresAt !== undefined && expiresAt - Date.now() < EXPIRY_MARGIN_MS;
+
+        if (expired && credentials.refreshToken) {
+            return adapter.refresh(credentials);
+        }
+
+        const result = await adapter.authenticate(credentials);
+        if (!result.success && credentials.refreshToken) {
+            return adapter.refresh(credentials);
+        }
+        return result;
+    }
+}
+
+export const sessionManager = new SessionManager();
@@ -7,7 +7,20 @@
  * Rate Limit: 200 requests/hour per user
  */
 
-import type { AuthResult, PostContent, PostResult, RateLimitInfo } from '../types';
+import type {
+    AccountCredentials,
+    AuthResult,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { isRemoteMedia, mediaHostService } from './mediaHost';
 
 // Threads OAuth scopes
 export const THREADS_SCOPES = [
@@ -16,27 +29,92 @@ export const THREADS_SCOPES = [
     'threads_manage_insights',
 ];
 
-export class ThreadsService {
+export class ThreadsService implements PlatformAdapter {
+    readonly platform = 'threads' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: true,
+        images: true,
+        video: false,
+        requiresMedia: false,
+        delete: true,
+    };
+
     private accessToken: string | null = null;
     private threadsUserId: string | null = null;
     private readonly apiBase = 'https://graph.threads.net/v1.0';
 
     /**
-     * Initialize OAuth 2.0 flow for Threads
+     * Build the Threads OAuth 2.0 authorization URL
      */
-    async authenticate(appId: string, redirectUri: string): Promise<AuthResult> {
+    getAuthorizationUrl(appId: string, redirectUri: string, state: string = crypto.randomUUID()): string {
         const authUrl = new URL('https://threads.net/oauth/authorize');
         authUrl.searchParams.set('client_id', appId);
         authUrl.searchParams.set('redirect_uri', redirectUri);
         authUrl.searchParams.set('scope', THREADS_SCOPES.join(','));
         authUrl.searchParams.set('response_type', 'code');
+        authUrl.searchParams.set('state', state);
 
-        console.log('Open this URL for authentication:', authUrl.toString());
+        return authUrl.toString();
+    }
 
-        return {
-            success: false,
-            error: 'OAuth flow not implemented. Please configure Meta Developer Console first.',
-        };
+    /**
+     * Authenticate from stored credentials
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
+
+        const result = await this.setAccessToken(credentials.accessToken);
+        return result.success ? { ...result, expiresAt: credentials.expiresAt } : result;
+    }
+
+    /**
+     * Refresh the long-lived access token
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        const token = credentials.accessToken || this.accessToken;
+        if (!token) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
+
+        try {
+            const response = await fetch(
+                `https://graph.threads.net/refresh_access_token?grant_type=th_refresh_token&access_token=${token}`
+            );
+
+            if (!response.ok) {
+                if (response.status === 400 || response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
+                throw new Error('Failed to refresh token');
+            }
+
+            const data = await response.json();
+            this.accessToken = data.access_token;
+
+            return {
+                success: true,
+                accessToken: data.access_token,
+                expiresAt: new Date(Date.now() + data.expires_in * 1000),
+                userId: this.threadsUserId || undefined,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Token refresh failed',
+            };
+        }
     }
 
     /**
@@ -68,7 +146,22 @@ export class ThreadsService {
             }
 
             const data = await response.json();
-            return this.setAccessToken(data.access_token);
+
+            // Swap the 1-hour token for a 60-day long-lived token
+            const longLivedResponse = await fetch(
+                `https://graph.threads.net/access_token?grant_type=th_exchange_token&client_secret=${appSecret}&access_token=${data.access_token}`
+            );
+
+            if (!longLivedResponse.ok) {
+                throw new Error('Failed to exchange for a long-lived token');
+            }
+
+            const longLived = await longLivedResponse.json();
+            const result = await this.setAccessToken(longLived.access_token);
+
+            return result.success
+                ? { ...result, expiresAt: new Date(Date.now() + longLived.expires_in * 1000) }
+                : result;
         } catch (error) {
             return {
                 success: false,
@@ -112,9 +205,9 @@ export class ThreadsService {
     }
 
     /**
-     * Create a text post
+     * Create a text post, optionally as a reply to another post
      */
-    async createPost(content: PostContent): Promise<PostResult> {
+    async createPost(content: PostContent, replyToId?: string): Promise<PostResult> {
         if (!this.accessToken || !this.threadsUserId) {
             return {
                 success: false,
@@ -136,11 +229,13 @@ export class ThreadsService {
                         media_type: 'TEXT',
                         text: content.text,
                         access_token: this.accessToken,
+                        ...(replyToId ? { reply_to_id: replyToId } : {}),
                     }),
                 }
             );
 
             if (!containerResponse.ok) {
+                if (containerResponse.status === 401) throw containerResponse;
                 const error = await containerResponse.json();
                 throw new Error(error.error?.message || 'Failed to create container');
             }
@@ -189,15 +284,20 @@ export class ThreadsService {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Post failed',
-                errorCode: 'POST_FAILED',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
             };
         }
     }
 
     /**
-     * Create a post with image
+     * Create a post with image, optionally as a reply to another post
      */
-    async createImagePost(content: PostContent, imageUrl: string): Promise<PostResult> {
+    async createImagePost(
+        content: PostContent,
+        imageUrl: string,
+        replyToId?: string,
+        altText?: string
+    ): Promise<PostResult> {
         if (!this.accessToken || !this.threadsUserId) {
             return {
                 success: false,
@@ -220,11 +320,14 @@ export class ThreadsService {
                         image_url: imageUrl,
                         text: content.text,
                         access_token: this.accessToken,
+                        ...(replyToId ? { reply_to_id: replyToId } : {}),
+                        ...(altText ? { alt_text: altText } : {}),
                     }),
                 }
             );
 
             if (!containerResponse.ok) {
+                if (containerResponse.status === 401) throw containerResponse;
                 throw new Error('Failed to create image container');
             }
 
@@ -263,19 +366,110 @@ export class ThreadsService {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Post failed',
-                errorCode: 'POST_FAILED',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
             };
         }
     }
 
+    /**
+     * Publish content through the common adapter contract
+     * Attaches the first image, put on the configured media host if it is local.
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        // A thread interrupted earlier resumes after its last posted part
+        if (content.thread && options?.checkpoint?.length) {
+            return this.publishThreadReplies(content.thread, options.checkpoint, {
+                platformPostId: options.checkpoint[0],
+                platformPostUrl: `https://www.threads.net/post/${options.checkpoint[0]}`,
+            });
+        }
+
+        const image = content.media?.find((m) => m.fileType.startsWith('image/'));
+
+        let first: PostResult;
+        try {
+            first = await mediaHostService.withHostedMedia(image ? [image] : [], ([hosted]) =>
+                hosted && isRemoteMedia(hosted)
+                    ? this.createImagePost(content, hosted.filePath, undefined, hosted.altText)
+                    : this.createPost(content)
+            );
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Media upload failed',
+                errorCode: getPublishErrorCode(error, 'MEDIA_INVALID'),
+            };
+        }
+        if (!first.success || !content.thread || !first.platformPostId) return first;
+
+        return this.publishThreadReplies(content.thread, [first.platformPostId], first);
+    }
+
+    /**
+     * Post the thread parts after the ones already posted, each replying
+     * to the previous post. On failure the IDs posted so far are returned
+     * as the checkpoint to resume from.
+     */
+    private async publishThreadReplies(
+        parts: string[],
+        postedIds: string[],
+        first: Pick<PostResult, 'platformPostId' | 'platformPostUrl'>
+    ): Promise<PostResult> {
+        const posted = [...postedIds];
+
+        for (let index = posted.length; index < parts.length; index++) {
+            const reply = await this.createPost({ text: parts[index] }, posted[posted.length - 1]);
+            if (!reply.success || !reply.platformPostId) {
+                return {
+                    ...reply,
+                    success: false,
+                    error: `Thread stopped at part ${index + 1}: ${reply.error}`,
+                    platformPostId: first.platformPostId,
+                    platformPostUrl: first.platformPostUrl,
+                    checkpoint: posted,
+                };
+            }
+            posted.push(reply.platformPostId);
+        }
+
+        return { success: true, platformPostId: first.platformPostId, platformPostUrl: first.platformPostUrl };
+    }
+
+    /**
+     * Delete a thread
+     */
+    async delete(platformPostId: string): Promise<boolean> {
+        if (!this.accessToken) return false;
+
+        try {
+            const response = await fetch(
+                `${this.apiBase}/${platformPostId}?access_token=${this.accessToken}`,
+                { method: 'DELETE' }
+            );
+
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Validate content through the common adapter contract
+     */
+    validate(content: PostContent): ValidationResult {
+        return this.validateContent(content);
+    }
+
     /**
      * Validate content for Threads
      */
-    validateContent(content: PostContent): { valid: boolean; errors: string[] } {
+    validateContent(content: PostContent): ValidationResult {
         const errors: string[] = [];
 
-        if (content.text.length > 500) {
-            errors.push('Text exceeds 500 characters');
+        for (const text of content.thread ?? [content.text]) {
+            if (getTextLength(text, 'threads') > 500) {
+                errors.push('Text exceeds 500 characters');
+            }
         }
 
         return {
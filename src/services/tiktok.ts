@@ -9,7 +9,21 @@
  * Rate Limits: Varies by endpoint
  */
 
-import type { AuthResult, PostResult, RateLimitInfo } from '../types';
+import type {
+    AccountCredentials,
+    AuthResult,
+    MediaFile,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { mediaService } from './media';
 
 // TikTok OAuth scopes
 export const TIKTOK_SCOPES = [
@@ -28,33 +42,129 @@ export interface TikTokVideoMetadata {
     videoCoverTimestampMs?: number;
 }
 
-export class TikTokService {
+export interface TikTokChunkPlan {
+    chunkSize: number;
+    totalChunkCount: number;
+}
+
+export interface TikTokPublishStatus {
+    status: 'PROCESSING_UPLOAD' | 'PROCESSING_DOWNLOAD' | 'SEND_TO_USER_INBOX' | 'PUBLISH_COMPLETE' | 'FAILED';
+    failReason?: string;
+    postIds: (string | number)[];
+}
+
+const MB = 1024 * 1024;
+
+// TikTok accepts 5-64MB chunks; files under 5MB go up whole, and the last
+// chunk absorbs the remainder (up to 128MB). At most 1,000 chunks.
+const MIN_CHUNK_SIZE = 5 * MB;
+const MAX_CHUNK_SIZE = 64 * MB;
+const DEFAULT_CHUNK_SIZE = 10 * MB;
+const MAX_CHUNK_COUNT = 1000;
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+const STATUS_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Split a video into chunks that satisfy TikTok's upload rules
+ */
+export function planTikTokChunks(videoSize: number, preferredSize = DEFAULT_CHUNK_SIZE): TikTokChunkPlan {
+    if (videoSize <= MIN_CHUNK_SIZE) {
+        return { chunkSize: videoSize, totalChunkCount: 1 };
+    }
+
+    const chunkSize = Math.min(
+        MAX_CHUNK_SIZE,
+        Math.max(MIN_CHUNK_SIZE, preferredSize, Math.ceil(videoSize / MAX_CHUNK_COUNT))
+    );
+    // A video smaller than one chunk goes up whole
+    if (videoSize < chunkSize) {
+        return { chunkSize: videoSize, totalChunkCount: 1 };
+    }
+    return { chunkSize, totalChunkCount: Math.max(1, Math.floor(videoSize / chunkSize)) };
+}
+
+export class TikTokService implements PlatformAdapter {
+    readonly platform = 'tiktok' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: false,
+        images: false,
+        video: true,
+        requiresMedia: true,
+        delete: false,
+    };
+
     private accessToken: string | null = null;
     private refreshToken: string | null = null;
     private openId: string | null = null;
     private readonly apiBase = 'https://open.tiktokapis.com/v2';
 
     /**
-     * Initialize OAuth 2.0 flow for TikTok
+     * Build the TikTok OAuth 2.0 authorization URL
      */
-    async authenticate(clientKey: string, redirectUri: string): Promise<AuthResult> {
-        const csrfState = crypto.randomUUID();
-
+    getAuthorizationUrl(clientKey: string, redirectUri: string, state: string = crypto.randomUUID()): string {
         const authUrl = new URL('https://www.tiktok.com/v2/auth/authorize/');
         authUrl.searchParams.set('client_key', clientKey);
         authUrl.searchParams.set('scope', TIKTOK_SCOPES.join(','));
         authUrl.searchParams.set('response_type', 'code');
         authUrl.searchParams.set('redirect_uri', redirectUri);
-        authUrl.searchParams.set('state', csrfState);
+        authUrl.searchParams.set('state', state);
 
-        console.log('Open this URL for authentication:', authUrl.toString());
+        return authUrl.toString();
+    }
+
+    /**
+     * Authenticate from stored credentials
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
+
+        this.accessToken = credentials.accessToken;
+        this.refreshToken = credentials.refreshToken || null;
+
+        const userInfo = await this.getUserInfo();
+        if (!userInfo) {
+            this.accessToken = null;
+            return {
+                success: false,
+                error: 'Failed to fetch user info',
+            };
+        }
+
+        this.openId = userInfo.id;
 
         return {
-            success: false,
-            error: 'OAuth flow not implemented. Please configure TikTok Developer Portal first.',
+            success: true,
+            accessToken: credentials.accessToken,
+            refreshToken: credentials.refreshToken,
+            expiresAt: credentials.expiresAt,
+            userId: userInfo.id,
+            username: userInfo.username,
+            displayName: userInfo.displayName,
+            avatarUrl: userInfo.avatarUrl,
         };
     }
 
+    /**
+     * Refresh tokens through the common adapter contract
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        const refreshToken = credentials.refreshToken || this.refreshToken;
+        if (!refreshToken || !credentials.clientId || !credentials.clientSecret) {
+            return {
+                success: false,
+                error: 'Missing refresh token or client credentials',
+            };
+        }
+
+        return this.refreshAccessToken(refreshToken, credentials.clientId, credentials.clientSecret);
+    }
+
     /**
      * Exchange authorization code for tokens
      */
@@ -131,6 +241,13 @@ export class TikTokService {
             });
 
             if (!response.ok) {
+                if (response.status === 400 || response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
                 throw new Error('Failed to refresh token');
             }
 
@@ -181,13 +298,14 @@ export class TikTokService {
     }
 
     /**
-     * Initialize video upload
-     * Returns an upload URL for the video file
+     * Initialize a direct-post video upload
+     * Returns the upload URL and the chunk plan TikTok accepted
      */
     async initializeVideoUpload(
         videoSize: number,
-        chunkSize: number = 10 * 1024 * 1024 // 10MB default
-    ): Promise<{ uploadUrl: string; publishId: string } | null> {
+        metadata: TikTokVideoMetadata,
+        plan: TikTokChunkPlan = planTikTokChunks(videoSize)
+    ): Promise<{ uploadUrl: string; publishId: string; plan: TikTokChunkPlan } | null> {
         if (!this.accessToken) return null;
 
         try {
@@ -195,24 +313,30 @@ export class TikTokService {
                 method: 'POST',
                 headers: {
                     Authorization: `Bearer ${this.accessToken}`,
-                    'Content-Type': 'application/json',
+                    'Content-Type': 'application/json; charset=UTF-8',
                 },
                 body: JSON.stringify({
                     post_info: {
-                        title: 'Video upload',
-                        privacy_level: 'SELF_ONLY', // Start as private
+                        title: metadata.title,
+                        privacy_level: metadata.privacyLevel,
+                        disable_comment: metadata.disableComment ?? false,
+                        disable_duet: metadata.disableDuet ?? false,
+                        disable_stitch: metadata.disableStitch ?? false,
+                        video_cover_timestamp_ms: metadata.videoCoverTimestampMs,
                     },
                     source_info: {
                         source: 'FILE_UPLOAD',
                         video_size: videoSize,
-                        chunk_size: chunkSize,
-                        total_chunk_count: Math.ceil(videoSize / chunkSize),
+                        chunk_size: plan.chunkSize,
+                        total_chunk_count: plan.totalChunkCount,
                     },
                 }),
             });
 
             if (!response.ok) {
-                throw new Error('Failed to initialize upload');
+                if (response.status === 401) throw response;
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error?.message || 'Failed to initialize upload');
             }
 
             const data = await response.json();
@@ -220,31 +344,37 @@ export class TikTokService {
             return {
                 uploadUrl: data.data.upload_url,
                 publishId: data.data.publish_id,
+                plan,
             };
-        } catch {
+        } catch (error) {
+            // Let an expired token reach publish() so it can be refreshed
+            if (error instanceof Response) throw error;
+            console.warn('[TikTokService] Upload initialization failed:', error);
             return null;
         }
     }
 
     /**
-     * Upload video chunk
+     * Upload one chunk covering bytes [start, start + chunk.size) of the video
      */
     async uploadVideoChunk(
         uploadUrl: string,
         chunk: Blob,
-        chunkIndex: number,
-        totalChunks: number
+        start: number,
+        videoSize: number,
+        mimeType: string
     ): Promise<boolean> {
         try {
             const response = await fetch(uploadUrl, {
                 method: 'PUT',
                 headers: {
-                    'Content-Type': 'video/mp4',
-                    'Content-Range': `bytes ${chunkIndex * chunk.size}-${(chunkIndex + 1) * chunk.size - 1}/${totalChunks * chunk.size}`,
+                    'Content-Type': mimeType,
+                    'Content-Range': `bytes ${start}-${start + chunk.size - 1}/${videoSize}`,
                 },
                 body: chunk,
             });
 
+            // 206 while chunks remain, 201 once the last one arrives
             return response.ok;
         } catch {
             return false;
@@ -252,9 +382,64 @@ export class TikTokService {
     }
 
     /**
-     * Publish video after upload
+     * Upload every chunk of a local video in order, reporting progress
+     */
+    async uploadVideo(
+        uploadUrl: string,
+        video: MediaFile,
+        videoSize: number,
+        plan: TikTokChunkPlan,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<boolean> {
+        onProgress?.({ stage: 'uploading', loaded: 0, total: videoSize });
+
+        for (let index = 0; index < plan.totalChunkCount; index++) {
+            const start = index * plan.chunkSize;
+            // The last chunk carries the remainder
+            const end = index === plan.totalChunkCount - 1 ? videoSize : start + plan.chunkSize;
+
+            const chunk = await mediaService.readFileRange(video.filePath, start, end);
+            if (!(await this.uploadVideoChunk(uploadUrl, chunk, start, videoSize, video.fileType))) {
+                return false;
+            }
+            onProgress?.({ stage: 'uploading', loaded: end, total: videoSize });
+        }
+
+        return true;
+    }
+
+    /**
+     * Fetch the processing status of a publish
+     */
+    async fetchPublishStatus(publishId: string): Promise<TikTokPublishStatus> {
+        const response = await fetch(`${this.apiBase}/post/publish/status/fetch/`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.accessToken}`,
+                'Content-Type': 'application/json; charset=UTF-8',
+            },
+            body: JSON.stringify({
+                publish_id: publishId,
+            }),
+        });
+
+        if (!response.ok) {
+            if (response.status === 401) throw response;
+            throw new Error('Failed to check publish status');
+        }
+
+        const { data } = await response.json();
+        return {
+            status: data.status,
+            failReason: data.fail_reason,
+            postIds: data.publicaly_available_post_id ?? [],
+        };
+    }
+
+    /**
+     * Poll the publish status until TikTok finishes or rejects the video
      */
-    async publishVideo(publishId: string, metadata: TikTokVideoMetadata): Promise<PostResult> {
+    async waitForPublish(publishId: string, onProgress?: PublishOptions['onProgress']): Promise<PostResult> {
         if (!this.accessToken) {
             return {
                 success: false,
@@ -263,50 +448,149 @@ export class TikTokService {
             };
         }
 
-        try {
-            const response = await fetch(`${this.apiBase}/post/publish/status/fetch/`, {
-                method: 'POST',
-                headers: {
-                    Authorization: `Bearer ${this.accessToken}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    publish_id: publishId,
-                }),
-            });
+        const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS;
+        let status: TikTokPublishStatus | null = null;
 
-            if (!response.ok) {
-                throw new Error('Failed to check publish status');
+        while (Date.now() < deadline) {
+            onProgress?.({ stage: 'processing', loaded: 0, total: 0 });
+            status = await this.fetchPublishStatus(publishId);
+
+            if (status.status === 'PUBLISH_COMPLETE') {
+                // Private videos have no public id; the publish id still identifies them
+                const postId = status.postIds[0];
+                return {
+                    success: true,
+                    platformPostId: postId ? String(postId) : publishId,
+                    platformPostUrl: postId ? `https://www.tiktok.com/@user/video/${postId}` : undefined,
+                };
             }
 
-            const data = await response.json();
+            if (status.status === 'FAILED') {
+                // An empty checkpoint drops the publish id so the next attempt uploads afresh
+                return {
+                    success: false,
+                    error: `TikTok rejected the video: ${status.failReason || 'unknown reason'}`,
+                    errorCode: 'PUBLISH_FAILED',
+                    checkpoint: [],
+                };
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+        }
+
+        // Still processing: keep the publish id so a retry polls it instead of uploading again
+        return {
+            success: false,
+            error: `Publish status: ${status?.status ?? 'unknown'}`,
+            errorCode: 'PUBLISH_PENDING',
+            checkpoint: [publishId],
+        };
+    }
 
-            if (data.data.status === 'PUBLISH_COMPLETE') {
+    /**
+     * Publish content through the common adapter contract
+     * Uploads the first attached video in chunks, then waits for TikTok to publish it.
+     * A checkpoint from an earlier attempt holds its publish id, which is polled
+     * instead of uploading the video again.
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        const [pendingPublishId] = options?.checkpoint ?? [];
+        if (pendingPublishId) {
+            try {
+                return await this.waitForPublish(pendingPublishId, options?.onProgress);
+            } catch (error) {
                 return {
-                    success: true,
-                    platformPostId: data.data.publicaly_available_post_id?.[0] || publishId,
-                    platformPostUrl: `https://www.tiktok.com/@user/video/${data.data.publicaly_available_post_id?.[0] || ''}`,
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Publish status check failed',
+                    errorCode: getPublishErrorCode(error, 'PUBLISH_PENDING'),
+                    checkpoint: [pendingPublishId],
                 };
             }
+        }
 
+        const video = content.media?.find((m) => m.fileType.startsWith('video/'));
+        if (!video) {
             return {
                 success: false,
-                error: `Publish status: ${data.data.status}`,
-                errorCode: 'PUBLISH_PENDING',
+                error: 'TikTok requires a video',
+                errorCode: 'NO_MEDIA',
             };
+        }
+
+        const metadata = (content.platformSpecific || {}) as Partial<TikTokVideoMetadata>;
+        let publishId: string | undefined;
+
+        try {
+            const videoSize = video.fileSize ?? await mediaService.getFileSize(video.filePath);
+
+            const upload = await this.initializeVideoUpload(videoSize, {
+                ...metadata,
+                title: metadata.title || content.text,
+                privacyLevel: metadata.privacyLevel || 'SELF_ONLY',
+            });
+            if (!upload) {
+                throw new Error('Failed to initialize upload');
+            }
+
+            const uploaded = await this.uploadVideo(upload.uploadUrl, video, videoSize, upload.plan, options?.onProgress);
+            if (!uploaded) {
+                throw new Error('Failed to upload video');
+            }
+            publishId = upload.publishId;
+
+            return await this.waitForPublish(publishId, options?.onProgress);
         } catch (error) {
+            // Once the upload finished, a failed status check leaves the video processing
             return {
                 success: false,
-                error: error instanceof Error ? error.message : 'Publish failed',
-                errorCode: 'PUBLISH_FAILED',
+                error: error instanceof Error ? error.message : 'Upload failed',
+                errorCode: getPublishErrorCode(error, publishId ? 'PUBLISH_PENDING' : 'UPLOAD_FAILED'),
+                checkpoint: publishId ? [publishId] : undefined,
             };
         }
     }
 
+    /**
+     * TikTok's API does not support deleting posts
+     */
+    async delete(): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Validate content for TikTok
+     */
+    validate(content: PostContent): ValidationResult {
+        const errors: string[] = [];
+
+        const videos = content.media?.filter((m) => m.fileType.startsWith('video/')) || [];
+        if (videos.length === 0) {
+            errors.push('TikTok requires a video');
+        }
+
+        for (const video of videos) {
+            if (!['video/mp4', 'video/webm'].includes(video.fileType)) {
+                errors.push(`Unsupported video type: ${video.fileType}. Allowed: MP4, WebM`);
+            }
+            if (video.fileSize && video.fileSize > 4 * 1024 * 1024 * 1024) {
+                errors.push('Video exceeds 4GB maximum size');
+            }
+        }
+
+        if (getTextLength(content.text, 'tiktok') > 2200) {
+            errors.push('Caption exceeds 2200 characters');
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors,
+        };
+    }
+
     /**
      * Validate video for TikTok
      */
-    validateVideo(file: File): { valid: boolean; errors: string[] } {
+    validateVideo(file: File): ValidationResult {
         const errors: string[] = [];
 
         // Check file type
@@ -0,0 +1,135 @@
+/**
+ * Token Lifecycle Service
+ *
+ * Refreshes access tokens shortly before `Account.tokenExpiresAt` and retries
+ * publishes once after refreshing when a platform answers AUTH_EXPIRED.
+ * Accounts whose refresh token has been revoked are flagged for re-login.
+ */
+
+import { useAccountStore } from '../stores';
+import { getAccountAdapter } from './registry';
+import { credentialVault } from './credentialVault';
+import type { Account, PlatformType, PostResult } from '../types';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// How long before expiry to refresh. Meta long-lived tokens last 60 days and
+// can only be extended while still valid, so they are refreshed a week early.
+const REFRESH_AHEAD_MS: Record<PlatformType, number> = {
+    bluesky: 10 * 60 * 1000,
+    x: 10 * 60 * 1000,
+    youtube: 10 * 60 * 1000,
+    tiktok: 60 * 60 * 1000,
+    instagram: 7 * 24 * 60 * 60 * 1000,
+    threads: 7 * 24 * 60 * 60 * 1000,
+    // Mastodon tokens do not expire
+    mastodon: 10 * 60 * 1000,
+};
+
+export class TokenLifecycleService {
+    private intervalId: number | null = null;
+    private refreshing = new Map<string, Promise<boolean>>();
+
+    /**
+     * Start checking for tokens that are about to expire
+     */
+    start(): void {
+        if (this.intervalId) return;
+
+        this.intervalId = window.setInterval(() => {
+            this.refreshDueTokens();
+        }, CHECK_INTERVAL_MS);
+
+        this.refreshDueTokens();
+    }
+
+    stop(): void {
+        if (this.intervalId) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    /**
+     * Whether the account's token expires within its refresh window
+     */
+    isRefreshDue(account: Account): boolean {
+        if (!account.tokenExpiresAt) return false;
+        const remaining = new Date(account.tokenExpiresAt).getTime() - Date.now();
+        return remaining < REFRESH_AHEAD_MS[account.platform];
+    }
+
+    /**
+     * Refresh every active account whose token is about to expire
+     */
+    async refreshDueTokens(): Promise<void> {
+        const { accounts, sessionStatuses } = useAccountStore.getState();
+        const due = accounts.filter(
+            (a) => a.isActive && sessionStatuses[a.id] !== 'revoked' && this.isRefreshDue(a)
+        );
+
+        for (const account of due) {
+            await this.refreshAccount(account);
+        }
+    }
+
+    /**
+     * Refresh one account's token; concurrent calls share the attempt
+     */
+    refreshAccount(account: Account): Promise<boolean> {
+        const pending = this.refreshing.get(account.id);
+        if (pending) return pending;
+
+        const attempt = this.doRefresh(account).finally(() => {
+            this.refreshing.delete(account.id);
+        });
+        this.refreshing.set(account.id, attempt);
+        return attempt;
+    }
+
+    /**
+     * Run a publish call, refreshing the token and retrying once on AUTH_EXPIRED
+     */
+    async publishWithRefresh(account: Account, publish: () => Promise<PostResult>): Promise<PostResult> {
+        const result = await publish();
+        if (result.errorCode !== 'AUTH_EXPIRED') return result;
+
+        if (!(await this.refreshAccount(account))) return result;
+        return publish();
+    }
+
+    private async doRefresh(account: Account): Promise<boolean> {
+        const { setSessionStatus, updateAccount } = useAccountStore.getState();
+
+        try {
+            const credentials = await credentialVault.load(account.id);
+            if (!credentials) {
+                setSessionStatus(account.id, 'needs_reauth');
+                return false;
+            }
+
+            const result = await getAccountAdapter(account).refresh(credentials);
+
+            if (!result.success) {
+                if (result.errorCode === 'AUTH_REVOKED') {
+                    console.warn(`[TokenLifecycle] Refresh token revoked for ${account.platform}/${account.username}`);
+                    setSessionStatus(account.id, 'revoked');
+                }
+                return false;
+            }
+
+            const rotated = await credentialVault.rotate(account.id, result);
+            updateAccount(account.id, {
+                tokenExpiresAt: rotated.expiresAt,
+                lastSyncAt: new Date(),
+            });
+            setSessionStatus(account.id, 'active');
+            return true;
+        } catch (error) {
+            console.error('[TokenLifecycle] Token refresh failed:', error);
+            return false;
+        }
+    }
+}
+
+export const tokenLifecycleService = new TokenLifecycleService();
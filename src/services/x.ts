@@ -19,13 +19,28 @@
  * - Main challenges: Developer account approval, rate limits
  */
 
-import type { AuthResult, PostResult, RateLimitInfo } from '../types';
+import type {
+    AccountCredentials,
+    AuthResult,
+    MediaFile,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    ValidationResult,
+} from '../types';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { mediaService } from './media';
 
 // X OAuth scopes
 export const X_SCOPES = [
     'tweet.read',
     'tweet.write',
     'users.read',
+    'media.write',
     'offline.access',
 ];
 
@@ -38,6 +53,24 @@ export interface XTweetMetadata {
     mediaIds?: string[];
 }
 
+export type XMediaCategory = 'tweet_image' | 'tweet_gif' | 'tweet_video';
+
+interface XProcessingInfo {
+    state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+    check_after_secs?: number;
+    error?: { message?: string };
+}
+
+const MAX_MEDIA_COUNT = 4;
+// APPEND accepts up to 5MB per segment
+const MEDIA_SEGMENT_SIZE = 4 * 1024 * 1024;
+const MEDIA_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function getMediaCategory(fileType: string): XMediaCategory {
+    if (fileType === 'image/gif') return 'tweet_gif';
+    return fileType.startsWith('video/') ? 'tweet_video' : 'tweet_image';
+}
+
 export interface XUserInfo {
     id: string;
     username: string;
@@ -46,7 +79,16 @@ export interface XUserInfo {
     verified: boolean;
 }
 
-export class XService {
+export class XService implements PlatformAdapter {
+    readonly platform = 'x' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: true,
+        images: true,
+        video: true,
+        requiresMedia: false,
+        delete: true,
+    };
+
     private accessToken: string | null = null;
     private refreshToken: string | null = null;
     private userId: string | null = null;
@@ -83,9 +125,9 @@ export class XService {
      */
     async getAuthorizationUrl(
         clientId: string,
-        redirectUri: string
+        redirectUri: string,
+        state: string = crypto.randomUUID()
     ): Promise<{ url: string; state: string; codeVerifier: string }> {
-        const state = crypto.randomUUID();
         this.codeVerifier = this.generateCodeVerifier();
         const codeChallenge = await this.generateCodeChallenge(this.codeVerifier);
 
@@ -188,6 +230,13 @@ export class XService {
             });
 
             if (!response.ok) {
+                if (response.status === 400 || response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
                 throw new Error('Token refresh failed');
             }
 
@@ -209,6 +258,58 @@ export class XService {
         }
     }
 
+    /**
+     * Authenticate from stored credentials
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
+
+        this.accessToken = credentials.accessToken;
+        this.refreshToken = credentials.refreshToken || null;
+
+        const userInfo = await this.getUserInfo();
+        if (!userInfo) {
+            this.accessToken = null;
+            return {
+                success: false,
+                error: 'Failed to fetch user info',
+            };
+        }
+
+        this.userId = userInfo.id;
+
+        return {
+            success: true,
+            accessToken: credentials.accessToken,
+            refreshToken: credentials.refreshToken,
+            expiresAt: credentials.expiresAt,
+            userId: userInfo.id,
+            username: userInfo.username,
+            displayName: userInfo.name,
+            avatarUrl: userInfo.profileImageUrl,
+        };
+    }
+
+    /**
+     * Refresh tokens through the common adapter contract
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        const refreshToken = credentials.refreshToken || this.refreshToken;
+        if (!refreshToken || !credentials.clientId) {
+            return {
+                success: false,
+                error: 'Missing refresh token or client ID',
+            };
+        }
+
+        return this.refreshAccessToken(refreshToken, credentials.clientId, credentials.clientSecret || '');
+    }
+
     /**
      * Set access token manually
      */
@@ -304,6 +405,7 @@ export class XService {
             });
 
             if (!response.ok) {
+                if (response.status === 401) throw response;
                 const error = await response.json();
                 throw new Error(error.detail || error.title || 'Tweet failed');
             }
@@ -319,11 +421,79 @@ export class XService {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Tweet failed',
-                errorCode: 'POST_FAILED',
+                errorCode: getPublishErrorCode(error, 'POST_FAILED'),
             };
         }
     }
 
+    /**
+     * Publish content through the common adapter contract
+     * Attached media is uploaded first and sent as the first tweet's mediaIds.
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        // A thread interrupted earlier resumes after its last posted part
+        if (content.thread && options?.checkpoint?.length) {
+            return this.publishThreadReplies(content.thread, options.checkpoint);
+        }
+
+        const metadata = (content.platformSpecific || {}) as Partial<XTweetMetadata>;
+
+        let mediaIds = metadata.mediaIds;
+        const media = (content.media ?? []).slice(0, MAX_MEDIA_COUNT);
+        if (!mediaIds && media.length > 0) {
+            mediaIds = [];
+            for (const file of media) {
+                try {
+                    mediaIds.push(await this.uploadMedia(file, options?.onProgress));
+                } catch (error) {
+                    return {
+                        success: false,
+                        error: `Media upload failed (${file.fileName}): ${error instanceof Error ? error.message : error}`,
+                        errorCode: getPublishErrorCode(error, 'MEDIA_INVALID'),
+                    };
+                }
+            }
+        }
+
+        const first = await this.createTweet({
+            ...metadata,
+            text: content.text,
+            mediaIds,
+        });
+
+        if (!first.success || !content.thread || !first.platformPostId) return first;
+        return this.publishThreadReplies(content.thread, [first.platformPostId]);
+    }
+
+    /**
+     * Post the thread parts after the ones already posted, each replying
+     * to the previous tweet. On failure the IDs posted so far are returned
+     * as the checkpoint to resume from.
+     */
+    private async publishThreadReplies(parts: string[], postedIds: string[]): Promise<PostResult> {
+        const posted = [...postedIds];
+        const first = {
+            platformPostId: posted[0],
+            platformPostUrl: `https://x.com/i/status/${posted[0]}`,
+        };
+
+        for (let index = posted.length; index < parts.length; index++) {
+            const reply = await this.createTweet({ text: parts[index], replyToTweetId: posted[posted.length - 1] });
+            if (!reply.success || !reply.platformPostId) {
+                return {
+                    ...reply,
+                    success: false,
+                    error: `Thread stopped at part ${index + 1}: ${reply.error}`,
+                    ...first,
+                    checkpoint: posted,
+                };
+            }
+            posted.push(reply.platformPostId);
+        }
+
+        return { success: true, ...first };
+    }
+
     /**
      * Delete a tweet
      */
@@ -345,52 +515,166 @@ export class XService {
     }
 
     /**
-     * Upload media (requires v1.1 endpoint)
-     * Note: Media upload still uses v1.1 API
+     * Delete a tweet through the common adapter contract
      */
-    async uploadMedia(
-        mediaData: Blob,
-        mediaType: 'image' | 'video' | 'gif'
-    ): Promise<string | null> {
-        if (!this.accessToken) return null;
+    async delete(platformPostId: string): Promise<boolean> {
+        return this.deleteTweet(platformPostId);
+    }
 
-        try {
-            // Note: Media upload requires v1.1 API and different auth
-            // This is a placeholder - actual implementation would need
-            // to use the chunked upload endpoint for videos
-            const formData = new FormData();
-            formData.append('media', mediaData);
+    /**
+     * Upload a media file with the chunked INIT / APPEND / FINALIZE flow,
+     * wait for X to finish processing it and attach its alt text
+     */
+    async uploadMedia(file: MediaFile, onProgress?: PublishOptions['onProgress']): Promise<string> {
+        if (!this.accessToken) throw new Error('Not authenticated');
+
+        const category = getMediaCategory(file.fileType);
+        const totalBytes = file.fileSize ?? await mediaService.getFileSize(file.filePath);
+
+        // INIT
+        const init = await this.mediaRequest(`${this.apiBase}/media/upload/initialize`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                media_type: file.fileType,
+                media_category: category,
+                total_bytes: totalBytes,
+            }),
+        });
+        const mediaId: string = init.data.id;
+
+        // APPEND, in order
+        onProgress?.({ stage: 'uploading', loaded: 0, total: totalBytes });
+        for (let start = 0, segment = 0; start < totalBytes; start += MEDIA_SEGMENT_SIZE, segment++) {
+            const end = Math.min(start + MEDIA_SEGMENT_SIZE, totalBytes);
+            const form = new FormData();
+            form.append('media', await mediaService.readFileRange(file.filePath, start, end));
+            form.append('segment_index', String(segment));
+
+            await this.mediaRequest(`${this.apiBase}/media/upload/${mediaId}/append`, {
+                method: 'POST',
+                body: form,
+            });
+            onProgress?.({ stage: 'uploading', loaded: end, total: totalBytes });
+        }
+
+        // FINALIZE, then STATUS until async processing ends
+        const finalized = await this.mediaRequest(`${this.apiBase}/media/upload/${mediaId}/finalize`, {
+            method: 'POST',
+        });
+        await this.waitForProcessing(mediaId, finalized.data.processing_info, onProgress);
+
+        if (file.altText && !(await this.setMediaAltText(mediaId, file.altText))) {
+            console.warn(`[XService] Could not set alt text for media ${mediaId}`);
+        }
+        return mediaId;
+    }
+
+    /**
+     * Poll STATUS while X transcodes video or GIF uploads
+     */
+    private async waitForProcessing(
+        mediaId: string,
+        info: XProcessingInfo | undefined,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<void> {
+        const deadline = Date.now() + MEDIA_PROCESSING_TIMEOUT_MS;
+
+        while (info && info.state !== 'succeeded') {
+            if (info.state === 'failed') {
+                throw new Error(info.error?.message || 'X could not process the media');
+            }
+            if (Date.now() > deadline) {
+                throw new Error('Timed out waiting for X to process the media');
+            }
+
+            onProgress?.({ stage: 'processing', loaded: 0, total: 0 });
+            await new Promise((resolve) => setTimeout(resolve, (info?.check_after_secs ?? 1) * 1000));
+
+            const status = await this.mediaRequest(
+                `${this.apiBase}/media/upload?command=STATUS&media_id=${mediaId}`,
+                { method: 'GET' }
+            );
+            info = status.data.processing_info;
+        }
+    }
+
+    private async mediaRequest(url: string, init: RequestInit) {
+        const response = await fetch(url, {
+            ...init,
+            headers: {
+                ...init.headers,
+                Authorization: `Bearer ${this.accessToken}`,
+            },
+        });
+
+        if (!response.ok) {
+            if (response.status === 401) throw response;
+            const error = await response.json().catch(() => null);
+            throw new Error(error?.detail || error?.title || `Media upload failed (${response.status})`);
+        }
+
+        return response.status === 204 ? {} : response.json();
+    }
 
-            const response = await fetch('https://upload.twitter.com/1.1/media/upload.json', {
+    /**
+     * Attach a description to uploaded media (max 1,000 characters)
+     */
+    async setMediaAltText(mediaId: string, altText: string): Promise<boolean> {
+        if (!this.accessToken) return false;
+
+        try {
+            const response = await fetch(`${this.apiBase}/media/metadata`, {
                 method: 'POST',
                 headers: {
                     Authorization: `Bearer ${this.accessToken}`,
+                    'Content-Type': 'application/json',
                 },
-                body: formData,
+                body: JSON.stringify({
+                    id: mediaId,
+                    metadata: { alt_text: { text: altText } },
+                }),
             });
-
-            if (!response.ok) return null;
-
-            const data = await response.json();
-            return data.media_id_string;
+            return response.ok;
         } catch {
-            return null;
+            return false;
         }
     }
 
     /**
      * Validate tweet content
      */
-    validateTweet(text: string): { valid: boolean; errors: string[] } {
+    validateTweet(text: string): ValidationResult {
         const errors: string[] = [];
 
-        // X has a 280 character limit
-        // Note: This is simplified - actual counting considers Unicode
-        if (text.length === 0) {
+        // X has a 280 character limit, weighted (CJK counts 2, URLs 23)
+        const length = getTextLength(text, 'x');
+        if (length === 0) {
             errors.push('Tweet cannot be empty');
         }
-        if (text.length > 280) {
-            errors.push(`Tweet exceeds 280 characters (${text.length}/280)`);
+        if (length > 280) {
+            errors.push(`Tweet exceeds 280 characters (${length}/280)`);
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors,
+        };
+    }
+
+    /**
+     * Validate content through the common adapter contract
+     */
+    validate(content: PostContent): ValidationResult {
+        const parts = content.thread ?? [content.text];
+        const errors = parts.flatMap((part) => this.validateTweet(part).errors);
+
+        if (content.media && content.media.length > MAX_MEDIA_COUNT) {
+            errors.push('Maximum 4 media attachments allowed');
+        }
+        if (content.media && content.media.length > 1
+            && content.media.some((m) => getMediaCategory(m.fileType) !== 'tweet_image')) {
+            errors.push('A video or GIF must be the only attachment');
         }
 
         return {
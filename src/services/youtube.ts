@@ -9,12 +9,30 @@
  * - Metadata update: 50 units
  */
 
-import type { AuthResult, PostContent, PostResult, RateLimitInfo } from '../types';
+import type {
+    AccountCredentials,
+    AuthResult,
+    MediaFile,
+    PlatformAdapter,
+    PlatformCapabilities,
+    PostContent,
+    PostResult,
+    PublishOptions,
+    RateLimitInfo,
+    UploadSession,
+    ValidationResult,
+} from '../types';
+import { useUploadSessionStore } from '../stores';
+import { getErrorMessage, getPublishErrorCode } from '../lib/errors';
+import { getTextLength } from '../lib/textLength';
+import { mediaService } from './media';
 
 // YouTube OAuth scopes
 export const YOUTUBE_SCOPES = [
     'https://www.googleapis.com/auth/youtube.upload',
     'https://www.googleapis.com/auth/youtube.readonly',
+    // Adding uploads to playlists
+    'https://www.googleapis.com/auth/youtube.force-ssl',
 ];
 
 export interface YouTubeVideoMetadata {
@@ -24,20 +42,38 @@ export interface YouTubeVideoMetadata {
     categoryId?: string;
     privacyStatus: 'public' | 'private' | 'unlisted';
     madeForKids?: boolean;
+    // Local JPEG or PNG set as the custom thumbnail after upload
+    thumbnailPath?: string;
+    playlistId?: string;
 }
 
-export class YouTubeService {
+type UploadState = { done: false; offset: number } | { done: true; videoId: string };
+
+// Chunks must be multiples of 256 KiB
+const UPLOAD_CHUNK_SIZE = 32 * 256 * 1024;
+const MAX_UPLOAD_RETRIES = 5;
+// Sessions expire after about a week; older ones are started over
+const UPLOAD_SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+
+export class YouTubeService implements PlatformAdapter {
+    readonly platform = 'youtube' as const;
+    readonly capabilities: PlatformCapabilities = {
+        text: false,
+        images: false,
+        video: true,
+        requiresMedia: true,
+        delete: true,
+    };
+
     private accessToken: string | null = null;
     private refreshToken: string | null = null;
     private channelId: string | null = null;
     private readonly apiBase = 'https://www.googleapis.com/youtube/v3';
 
     /**
-     * Initialize OAuth 2.0 flow
-     * In a real implementation, this would open a browser window for Google OAuth
+     * Build the Google OAuth 2.0 authorization URL
      */
-    async authenticate(clientId: string, clientSecret: string, redirectUri: string): Promise<AuthResult> {
-        // OAuth 2.0 authorization URL
+    getAuthorizationUrl(clientId: string, redirectUri: string, state: string = crypto.randomUUID()): string {
         const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
         authUrl.searchParams.set('client_id', clientId);
         authUrl.searchParams.set('redirect_uri', redirectUri);
@@ -45,17 +81,66 @@ export class YouTubeService {
         authUrl.searchParams.set('scope', YOUTUBE_SCOPES.join(' '));
         authUrl.searchParams.set('access_type', 'offline');
         authUrl.searchParams.set('prompt', 'consent');
+        authUrl.searchParams.set('state', state);
+
+        return authUrl.toString();
+    }
+
+    /**
+     * Authenticate from stored credentials
+     */
+    async authenticate(credentials: AccountCredentials): Promise<AuthResult> {
+        if (!credentials.accessToken) {
+            return {
+                success: false,
+                error: 'Missing access token',
+            };
+        }
 
-        // In Tauri, we would use the shell plugin to open this URL
-        // and handle the callback
-        console.log('Open this URL for authentication:', authUrl.toString());
+        this.accessToken = credentials.accessToken;
+        this.refreshToken = credentials.refreshToken || null;
+
+        const channelInfo = await this.getChannelInfo();
+        if (!channelInfo) {
+            this.accessToken = null;
+            return {
+                success: false,
+                error: 'Failed to fetch channel info',
+            };
+        }
 
         return {
-            success: false,
-            error: 'OAuth flow not implemented. Please configure Google Cloud Console first.',
+            success: true,
+            accessToken: credentials.accessToken,
+            refreshToken: credentials.refreshToken,
+            expiresAt: credentials.expiresAt,
+            userId: channelInfo.id,
+            username: channelInfo.snippet?.title,
+            displayName: channelInfo.snippet?.title,
+            avatarUrl: channelInfo.snippet?.thumbnails?.default?.url,
         };
     }
 
+    /**
+     * Refresh tokens through the common adapter contract
+     */
+    async refresh(credentials: AccountCredentials): Promise<AuthResult> {
+        const refreshToken = credentials.refreshToken || this.refreshToken;
+        if (!refreshToken || !credentials.clientId || !credentials.clientSecret) {
+            return {
+                success: false,
+                error: 'Missing refresh token or client credentials',
+            };
+        }
+
+        const result = await this.refreshAccessToken(refreshToken, credentials.clientId, credentials.clientSecret);
+
+        // Google keeps the refresh token unchanged on refresh
+        return result.success
+            ? { ...result, refreshToken, userId: this.channelId || undefined }
+            : result;
+    }
+
     /**
      * Exchange authorization code for tokens
      */
@@ -126,6 +211,13 @@ export class YouTubeService {
             });
 
             if (!response.ok) {
+                if (response.status === 400 || response.status === 401) {
+                    return {
+                        success: false,
+                        error: getErrorMessage('AUTH_REVOKED'),
+                        errorCode: 'AUTH_REVOKED',
+                    };
+                }
                 throw new Error('Failed to refresh token');
             }
 
@@ -175,10 +267,15 @@ export class YouTubeService {
     }
 
     /**
-     * Upload video (resumable upload)
-     * Note: This is a simplified version. Full implementation would use resumable uploads.
+     * Upload a video with a resumable session, in chunks
+     * The session is persisted, so an interrupted upload continues from the
+     * last byte YouTube received, even after the app restarts.
      */
-    async uploadVideo(videoFile: File, metadata: YouTubeVideoMetadata): Promise<PostResult> {
+    async uploadVideo(
+        video: MediaFile,
+        metadata: YouTubeVideoMetadata,
+        onProgress?: PublishOptions['onProgress']
+    ): Promise<PostResult> {
         if (!this.accessToken) {
             return {
                 success: false,
@@ -187,69 +284,313 @@ export class YouTubeService {
             };
         }
 
+        const sessions = useUploadSessionStore.getState();
+        const sessionId = `youtube:${this.channelId}:${video.id}`;
+
         try {
-            // Step 1: Start resumable upload
-            const initResponse = await fetch(
-                `https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`,
-                {
+            const videoSize = video.fileSize ?? await mediaService.getFileSize(video.filePath);
+
+            let uploadUrl: string | null = null;
+            let state: UploadState = { done: false, offset: 0 };
+
+            const stored = sessions.getSession(sessionId);
+            if (stored && this.isSessionUsable(stored, video, videoSize)) {
+                const resumed = await this.queryUploadState(stored.uploadUrl, videoSize).catch((error) => {
+                    // A network or server error says nothing about the session; try it again later
+                    if (this.isRetryable(error)) throw error;
+                    return null;
+                });
+                if (resumed) {
+                    uploadUrl = stored.uploadUrl;
+                    state = resumed;
+                }
+            }
+
+            if (!uploadUrl) {
+                uploadUrl = await this.startUploadSession(video, videoSize, metadata);
+                sessions.saveSession({
+                    id: sessionId,
+                    platform: 'youtube',
+                    uploadUrl,
+                    filePath: video.filePath,
+                    fileSize: videoSize,
+                    createdAt: new Date(),
+                });
+            }
+
+            let retries = 0;
+            while (!state.done) {
+                onProgress?.({ stage: 'uploading', loaded: state.offset, total: videoSize });
+
+                try {
+                    const end = Math.min(state.offset + UPLOAD_CHUNK_SIZE, videoSize);
+                    state = await this.uploadChunk(uploadUrl, video, state.offset, end, videoSize);
+                    retries = 0;
+                } catch (error) {
+                    if (!this.isRetryable(error) || ++retries > MAX_UPLOAD_RETRIES) throw error;
+
+                    // Ask YouTube how much arrived before continuing
+                    await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (retries - 1)));
+                    const resumed = await this.queryUploadState(uploadUrl, videoSize).catch(() => undefined);
+                    if (resumed === null) throw new Error('Upload session expired');
+                    if (resumed) state = resumed;
+                }
+            }
+
+            sessions.removeSession(sessionId);
+            onProgress?.({ stage: 'processing', loaded: 0, total: 0 });
+
+            await this.applyExtras(state.videoId, metadata);
+
+            return {
+                success: true,
+                platformPostId: state.videoId,
+                platformPostUrl: `https://www.youtube.com/watch?v=${state.videoId}`,
+            };
+        } catch (error) {
+            // Keep the session when a refreshed token or a later attempt can resume it:
+            // after a 401, a network failure or a server error. An expired session or
+            // another 4xx cannot be resumed, so the next attempt starts over.
+            const resumable = (error instanceof Response && error.status === 401) || this.isRetryable(error);
+            if (!resumable) {
+                sessions.removeSession(sessionId);
+            }
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Upload failed',
+                errorCode: getPublishErrorCode(error, 'UPLOAD_FAILED'),
+            };
+        }
+    }
+
+    /**
+     * Open a resumable upload session and return its URI
+     */
+    private async startUploadSession(
+        video: MediaFile,
+        videoSize: number,
+        metadata: YouTubeVideoMetadata
+    ): Promise<string> {
+        const response = await fetch(
+            `https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`,
+            {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${this.accessToken}`,
+                    'Content-Type': 'application/json',
+                    'X-Upload-Content-Type': video.fileType,
+                    'X-Upload-Content-Length': videoSize.toString(),
+                },
+                body: JSON.stringify({
+                    snippet: {
+                        title: metadata.title,
+                        description: metadata.description,
+                        tags: metadata.tags,
+                        categoryId: metadata.categoryId || '22', // People & Blogs
+                    },
+                    status: {
+                        privacyStatus: metadata.privacyStatus,
+                        madeForKids: metadata.madeForKids || false,
+                    },
+                }),
+            }
+        );
+
+        if (!response.ok) {
+            if (response.status === 401) throw response;
+            throw new Error('Failed to initialize upload');
+        }
+
+        const uploadUrl = response.headers.get('Location');
+        if (!uploadUrl) {
+            throw new Error('No upload URL received');
+        }
+        return uploadUrl;
+    }
+
+    /**
+     * Send bytes [start, end) of the video
+     */
+    private async uploadChunk(
+        uploadUrl: string,
+        video: MediaFile,
+        start: number,
+        end: number,
+        videoSize: number
+    ): Promise<UploadState> {
+        const chunk = await mediaService.readFileRange(video.filePath, start, end);
+        const response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': video.fileType,
+                'Content-Range': `bytes ${start}-${end - 1}/${videoSize}`,
+            },
+            body: chunk,
+        });
+        return this.toUploadState(response);
+    }
+
+    /**
+     * Ask the session how many bytes it has; null when the session is gone
+     */
+    private async queryUploadState(uploadUrl: string, videoSize: number): Promise<UploadState | null> {
+        const response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: {
+                'Content-Range': `bytes */${videoSize}`,
+            },
+        });
+        if (response.status === 404 || response.status === 410) return null;
+        return this.toUploadState(response);
+    }
+
+    // 308 means "resume incomplete"; its Range header covers the bytes received
+    private async toUploadState(response: Response): Promise<UploadState> {
+        if (response.status === 308) {
+            const range = response.headers.get('Range')?.match(/bytes=0-(\d+)/);
+            return { done: false, offset: range ? Number(range[1]) + 1 : 0 };
+        }
+        if (!response.ok) throw response;
+
+        const result = await response.json();
+        return { done: true, videoId: result.id };
+    }
+
+    private isSessionUsable(session: UploadSession, video: MediaFile, videoSize: number): boolean {
+        return session.filePath === video.filePath
+            && session.fileSize === videoSize
+            && Date.now() - session.createdAt.getTime() < UPLOAD_SESSION_MAX_AGE_MS;
+    }
+
+    // Network failures and server errors are worth another try; 4xx are not
+    private isRetryable(error: unknown): boolean {
+        if (error instanceof Response) return error.status >= 500;
+        return error instanceof TypeError;
+    }
+
+    /**
+     * Set the custom thumbnail and add the video to a playlist; failures
+     * here do not undo the upload
+     */
+    private async applyExtras(videoId: string, metadata: YouTubeVideoMetadata): Promise<void> {
+        if (metadata.thumbnailPath) {
+            try {
+                const image = await mediaService.readFile(metadata.thumbnailPath);
+                const response = await fetch(
+                    `https://www.googleapis.com/upload/youtube/v3/thumbnails/set?videoId=${videoId}`,
+                    {
+                        method: 'POST',
+                        headers: {
+                            Authorization: `Bearer ${this.accessToken}`,
+                            'Content-Type': image.type || 'image/jpeg',
+                        },
+                        body: image,
+                    }
+                );
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            } catch (error) {
+                console.warn('[YouTubeService] Could not set thumbnail:', error);
+            }
+        }
+
+        if (metadata.playlistId) {
+            try {
+                const response = await fetch(`${this.apiBase}/playlistItems?part=snippet`, {
                     method: 'POST',
                     headers: {
                         Authorization: `Bearer ${this.accessToken}`,
                         'Content-Type': 'application/json',
-                        'X-Upload-Content-Type': videoFile.type,
-                        'X-Upload-Content-Length': videoFile.size.toString(),
                     },
                     body: JSON.stringify({
                         snippet: {
-                            title: metadata.title,
-                            description: metadata.description,
-                            tags: metadata.tags,
-                            categoryId: metadata.categoryId || '22', // People & Blogs
-                        },
-                        status: {
-                            privacyStatus: metadata.privacyStatus,
-                            madeForKids: metadata.madeForKids || false,
+                            playlistId: metadata.playlistId,
+                            resourceId: { kind: 'youtube#video', videoId },
                         },
                     }),
-                }
-            );
-
-            if (!initResponse.ok) {
-                throw new Error('Failed to initialize upload');
+                });
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            } catch (error) {
+                console.warn('[YouTubeService] Could not add to playlist:', error);
             }
+        }
+    }
 
-            const uploadUrl = initResponse.headers.get('Location');
-            if (!uploadUrl) {
-                throw new Error('No upload URL received');
-            }
+    /**
+     * Publish content through the common adapter contract
+     * The first attached video is uploaded; the text becomes the description.
+     */
+    async publish(content: PostContent, options?: PublishOptions): Promise<PostResult> {
+        const video = content.media?.find((m) => m.fileType.startsWith('video/'));
+        if (!video) {
+            return {
+                success: false,
+                error: 'YouTube requires a video',
+                errorCode: 'NO_MEDIA',
+            };
+        }
 
-            // Step 2: Upload the file
-            const uploadResponse = await fetch(uploadUrl, {
-                method: 'PUT',
+        const metadata = (content.platformSpecific || {}) as Partial<YouTubeVideoMetadata>;
+
+        return this.uploadVideo(video, {
+            title: metadata.title || content.text.split('\n')[0].slice(0, 100),
+            description: metadata.description ?? content.text,
+            tags: metadata.tags ?? content.hashtags,
+            categoryId: metadata.categoryId,
+            privacyStatus: metadata.privacyStatus || 'private',
+            madeForKids: metadata.madeForKids,
+            thumbnailPath: metadata.thumbnailPath,
+            playlistId: metadata.playlistId,
+        }, options?.onProgress);
+    }
+
+    /**
+     * Delete a video
+     */
+    async delete(platformPostId: string): Promise<boolean> {
+        if (!this.accessToken) return false;
+
+        try {
+            const response = await fetch(`${this.apiBase}/videos?id=${platformPostId}`, {
+                method: 'DELETE',
                 headers: {
-                    'Content-Type': videoFile.type,
+                    Authorization: `Bearer ${this.accessToken}`,
                 },
-                body: videoFile,
             });
 
-            if (!uploadResponse.ok) {
-                throw new Error('Failed to upload video');
-            }
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
 
-            const result = await uploadResponse.json();
+    /**
+     * Validate content for YouTube
+     */
+    validate(content: PostContent): ValidationResult {
+        const errors: string[] = [];
+        const metadata = (content.platformSpecific || {}) as Partial<YouTubeVideoMetadata>;
 
-            return {
-                success: true,
-                platformPostId: result.id,
-                platformPostUrl: `https://www.youtube.com/watch?v=${result.id}`,
-            };
-        } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Upload failed',
-                errorCode: 'UPLOAD_FAILED',
-            };
+        const videos = content.media?.filter((m) => m.fileType.startsWith('video/')) || [];
+        if (videos.length === 0) {
+            errors.push('YouTube requires a video');
         }
+
+        const title = metadata.title || content.text.split('\n')[0];
+        if (!title.trim()) {
+            errors.push('Title is required');
+        }
+        if (title.length > 100) {
+            errors.push('Title exceeds 100 characters');
+        }
+
+        if (getTextLength(content.text, 'youtube') > 5000) {
+            errors.push('Description exceeds 5000 characters');
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors,
+        };
     }
 
     /**
@@ -277,6 +618,13 @@ export class YouTubeService {
         };
     }
 
+    /**
+     * Get rate limit info through the common adapter contract
+     */
+    async getRateLimits(): Promise<RateLimitInfo> {
+        return this.getQuotaInfo();
+    }
+
     /**
      * Check if authenticated
      */
@@ -1,10 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Account, PlatformType } from '../types';
+import { Account, AccountSessionStatus, PlatformType } from '../types';
+import { accountRepository } from '../repositories';
+import { persistWrite } from '../lib/database';
 
 interface AccountState {
     accounts: Account[];
     selectedAccountIds: string[];
+    sessionStatuses: Record<string, AccountSessionStatus>;
     isLoading: boolean;
     error: string | null;
 
@@ -14,6 +17,7 @@ interface AccountState {
     updateAccount: (id: string, updates: Partial<Account>) => void;
     setSelectedAccounts: (ids: string[]) => void;
     toggleAccountSelection: (id: string) => void;
+    setSessionStatus: (id: string, status: AccountSessionStatus) => void;
     selectAllAccounts: () => void;
     deselectAllAccounts: () => void;
     getAccountsByPlatform: (platform: PlatformType) => Account[];
@@ -26,26 +30,38 @@ export const useAccountStore = create<AccountState>()(
         (set, get) => ({
             accounts: [],
             selectedAccountIds: [],
+            sessionStatuses: {},
             isLoading: false,
             error: null,
 
-            addAccount: (account) =>
+            addAccount: (account) => {
                 set((state) => ({
                     accounts: [...state.accounts, account],
-                })),
+                }));
+                persistWrite(accountRepository.save(account), 'save account');
+            },
 
-            removeAccount: (id) =>
-                set((state) => ({
-                    accounts: state.accounts.filter((a) => a.id !== id),
-                    selectedAccountIds: state.selectedAccountIds.filter((aid) => aid !== id),
-                })),
+            removeAccount: (id) => {
+                set((state) => {
+                    const { [id]: _removed, ...sessionStatuses } = state.sessionStatuses;
+                    return {
+                        accounts: state.accounts.filter((a) => a.id !== id),
+                        selectedAccountIds: state.selectedAccountIds.filter((aid) => aid !== id),
+                        sessionStatuses,
+                    };
+                });
+                persistWrite(accountRepository.delete(id), 'delete account');
+            },
 
-            updateAccount: (id, updates) =>
+            updateAccount: (id, updates) => {
                 set((state) => ({
                     accounts: state.accounts.map((a) =>
                         a.id === id ? { ...a, ...updates, updatedAt: new Date() } : a
                     ),
-                })),
+                }));
+                const account = get().accounts.find((a) => a.id === id);
+                if (account) persistWrite(accountRepository.save(account), 'save account');
+            },
 
             setSelectedAccounts: (ids) =>
                 set({ selectedAccountIds: ids }),
@@ -57,6 +73,11 @@ export const useAccountStore = create<AccountState>()(
                         : [...state.selectedAccountIds, id],
                 })),
 
+            setSessionStatus: (id, status) =>
+                set((state) => ({
+                    sessionStatuses: { ...state.sessionStatuses, [id]: status },
+                })),
+
             selectAllAccounts: () =>
                 set((state) => ({
                     selectedAccountIds: state.accounts.filter((a) => a.isActive).map((a) => a.id),
@@ -75,7 +96,11 @@ export const useAccountStore = create<AccountState>()(
                 set({ error }),
         }),
         {
-            name: 'cross-link-accounts',
+            // Accounts live in SQLite; only the composer selection stays in localStorage
+            name: 'cross-link-account-selection',
+            partialize: (state) => ({
+                selectedAccountIds: state.selectedAccountIds,
+            }),
         }
     )
 );
@@ -1,13 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { MediaHostConfig } from '../types';
 
 type Theme = 'light' | 'dark' | 'system';
 type Language = 'ja' | 'en';
+export type MissedPostPolicy = 'post' | 'skip' | 'ask';
 
 interface AppState {
     theme: Theme;
     language: Language;
     sidebarCollapsed: boolean;
+    missedPostPolicy: MissedPostPolicy;
+    // Block posting while attached images have no alt text
+    requireAltText: boolean;
+    // Secrets for the host live in the credential vault
+    mediaHost: MediaHostConfig | null;
     currentView: 'dashboard' | 'compose' | 'accounts' | 'schedule' | 'history' | 'templates' | 'settings' | 'help';
 
     // Actions
@@ -16,6 +23,9 @@ interface AppState {
     toggleSidebar: () => void;
     setSidebarCollapsed: (collapsed: boolean) => void;
     setCurrentView: (view: AppState['currentView']) => void;
+    setMissedPostPolicy: (policy: MissedPostPolicy) => void;
+    setRequireAltText: (required: boolean) => void;
+    setMediaHost: (config: MediaHostConfig | null) => void;
 }
 
 export const useAppStore = create<AppState>()(
@@ -24,6 +34,9 @@ export const useAppStore = create<AppState>()(
             theme: 'system',
             language: 'ja',
             sidebarCollapsed: false,
+            missedPostPolicy: 'ask',
+            requireAltText: false,
+            mediaHost: null,
             currentView: 'dashboard',
 
             setTheme: (theme) => {
@@ -48,6 +61,15 @@ export const useAppStore = create<AppState>()(
 
             setCurrentView: (view) =>
                 set({ currentView: view }),
+
+            setMissedPostPolicy: (policy) =>
+                set({ missedPostPolicy: policy }),
+
+            setRequireAltText: (required) =>
+                set({ requireAltText: required }),
+
+            setMediaHost: (config) =>
+                set({ mediaHost: config }),
         }),
         {
             name: 'cross-link-app',
@@ -0,0 +1,111 @@
+/**
+ * Store Hydration
+ *
+ * Loads persisted data from SQLite into the stores on startup, importing
+ * anything left in the old localStorage keys the first time it runs.
+ */
+
+import { isDatabaseAvailable } from '../lib/database';
+import {
+    accountRepository,
+    postRepository,
+    scheduleRepository,
+    templateRepository,
+    uploadSessionRepository,
+} from '../repositories';
+import type { Account, CrossPostTarget, Post, PostTemplate } from '../types';
+import { useAccountStore } from './accountStore';
+import { usePostStore } from './postStore';
+import { useScheduleStore, type ScheduledPost } from './scheduleStore';
+import { useTemplateStore } from './templateStore';
+import { useUploadSessionStore } from './uploadSessionStore';
+
+// localStorage keys used before the SQLite migration
+const LEGACY_KEYS = {
+    accounts: 'cross-link-accounts',
+    posts: 'cross-link-posts',
+    schedule: 'cross-link-schedule-storage',
+    templates: 'cross-link-templates',
+};
+
+function readLegacyState<T>(key: string): Partial<T> {
+    const raw = localStorage.getItem(key);
+    if (!raw) return {};
+
+    try {
+        return (JSON.parse(raw).state ?? {}) as Partial<T>;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Copy data from the old localStorage keys into SQLite and remove the keys
+ */
+async function importLegacyStorage(): Promise<void> {
+    const { accounts = [], selectedAccountIds = [] } =
+        readLegacyState<{ accounts: Account[]; selectedAccountIds: string[] }>(LEGACY_KEYS.accounts);
+    const { posts = [], crossPostTargets = [] } =
+        readLegacyState<{ posts: Post[]; crossPostTargets: CrossPostTarget[] }>(LEGACY_KEYS.posts);
+    const { scheduledPosts = [] } =
+        readLegacyState<{ scheduledPosts: ScheduledPost[] }>(LEGACY_KEYS.schedule);
+    const { templates = [] } =
+        readLegacyState<{ templates: PostTemplate[] }>(LEGACY_KEYS.templates);
+
+    // Parents before children so foreign keys hold
+    const writes = [
+        ...accounts.map((account) => accountRepository.save(account)),
+        ...posts.map((post) => postRepository.save(post)),
+        ...crossPostTargets.map((target) => postRepository.saveTarget(target)),
+        ...scheduledPosts.map((job) => scheduleRepository.save({
+            ...job,
+            retryCount: job.retryCount ?? 0,
+            maxRetries: job.maxRetries ?? 3,
+            processingPolls: job.processingPolls ?? 0,
+        })),
+        ...templates.map((template) => templateRepository.save(template)),
+    ];
+    try {
+        await Promise.all(writes);
+    } catch (error) {
+        // Keep the legacy keys so the import runs again on the next launch
+        console.error('[Database] Legacy import failed, localStorage kept:', error);
+        return;
+    }
+
+    if (selectedAccountIds.length > 0) {
+        useAccountStore.getState().setSelectedAccounts(selectedAccountIds);
+    }
+
+    for (const key of Object.values(LEGACY_KEYS)) {
+        localStorage.removeItem(key);
+    }
+}
+
+/**
+ * Load all persisted data into the stores
+ */
+export async function hydrateStores(): Promise<void> {
+    if (!isDatabaseAvailable()) return;
+
+    try {
+        await importLegacyStorage();
+
+        const [accounts, posts, crossPostTargets, scheduledPosts, templates, uploadSessions] = await Promise.all([
+            accountRepository.getAll(),
+            postRepository.getAll(),
+            postRepository.getAllTargets(),
+            scheduleRepository.getAll(),
+            templateRepository.getAll(),
+            uploadSessionRepository.getAll(),
+        ]);
+
+        useAccountStore.setState({ accounts });
+        usePostStore.setState({ posts, crossPostTargets });
+        useScheduleStore.setState({ scheduledPosts });
+        useTemplateStore.setState({ templates });
+        useUploadSessionStore.setState({ sessions: uploadSessions });
+    } catch (error) {
+        console.error('[Database] Failed to load stored data:', error);
+    }
+}
@@ -1,5 +1,9 @@
 export { useAccountStore } from './accountStore';
 export { usePostStore } from './postStore';
 export { useAppStore } from './appStore';
+export type { MissedPostPolicy } from './appStore';
 export { useScheduleStore } from './scheduleStore';
+export type { ScheduledPost, ScheduledPostStatus } from './scheduleStore';
 export { useTemplateStore } from './templateStore';
+export { useUploadSessionStore } from './uploadSessionStore';
+export { hydrateStores } from './hydrate';
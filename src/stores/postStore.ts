@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { Post, CrossPostTarget, PostStatus, ContentType } from '../types';
+import { Post, CrossPostTarget, PostStatus, ContentType, MediaFile, PlatformType, PlatformVariant, PlatformVariants } from '../types';
+import { postRepository } from '../repositories';
+import { persistWrite } from '../lib/database';
 
 interface PostState {
     posts: Post[];
@@ -8,7 +10,10 @@ interface PostState {
         title?: string;
         contentType: ContentType;
         mediaPaths: string[];
+        media: MediaFile[];
         hashtags: string[];
+        variants: PlatformVariants;
+        autoThread: boolean;
         scheduledAt?: Date;
     };
     crossPostTargets: CrossPostTarget[];
@@ -19,10 +24,15 @@ interface PostState {
     setDraftContent: (content: string) => void;
     setDraftTitle: (title: string) => void;
     setDraftContentType: (type: ContentType) => void;
-    addDraftMedia: (path: string) => void;
+    addDraftMedia: (file: MediaFile) => void;
     removeDraftMedia: (path: string) => void;
+    moveDraftMedia: (path: string, toIndex: number) => void;
+    setDraftMediaAltText: (path: string, altText: string) => void;
     setDraftHashtags: (hashtags: string[]) => void;
     setDraftScheduledAt: (date: Date | undefined) => void;
+    setDraftVariant: (platform: PlatformType, updates: PlatformVariant) => void;
+    resetDraftVariant: (platform: PlatformType) => void;
+    setDraftAutoThread: (autoThread: boolean) => void;
     clearDraft: () => void;
 
     // Post actions
@@ -46,10 +56,28 @@ const initialDraft = {
     title: undefined,
     contentType: 'text' as ContentType,
     mediaPaths: [],
+    media: [],
     hashtags: [],
+    variants: {},
+    autoThread: false,
     scheduledAt: undefined,
 };
 
+// Derive the draft's media order and content type from its files
+function withDraftMedia(media: MediaFile[]) {
+    const sorted = media.map((file, index) => ({ ...file, sortOrder: index }));
+    const images = sorted.filter((file) => file.fileType.startsWith('image/')).length;
+    const contentType: ContentType = sorted.some((file) => file.fileType.startsWith('video/'))
+        ? 'video'
+        : images > 1 ? 'carousel' : images === 1 ? 'image' : 'text';
+
+    return {
+        media: sorted,
+        mediaPaths: sorted.map((file) => file.filePath),
+        contentType,
+    };
+}
+
 export const usePostStore = create<PostState>((set, get) => ({
     posts: [],
     currentDraft: { ...initialDraft },
@@ -73,22 +101,56 @@ export const usePostStore = create<PostState>((set, get) => ({
             currentDraft: { ...state.currentDraft, contentType: type },
         })),
 
-    addDraftMedia: (path) =>
-        set((state) => ({
-            currentDraft: {
-                ...state.currentDraft,
-                mediaPaths: [...state.currentDraft.mediaPaths, path],
-                contentType: path.includes('video') ? 'video' : 'image',
-            },
-        })),
+    addDraftMedia: (file) =>
+        set((state) => {
+            if (state.currentDraft.mediaPaths.includes(file.filePath)) return state;
+            return {
+                currentDraft: {
+                    ...state.currentDraft,
+                    ...withDraftMedia([...state.currentDraft.media, file]),
+                },
+            };
+        }),
 
     removeDraftMedia: (path) =>
+        set((state) => {
+            // Drop the file from variants that pick their own media too
+            const variants: PlatformVariants = {};
+            for (const [platform, variant] of Object.entries(state.currentDraft.variants)) {
+                variants[platform as PlatformType] = variant?.mediaPaths
+                    ? { ...variant, mediaPaths: variant.mediaPaths.filter((p) => p !== path) }
+                    : variant;
+            }
+
+            return {
+                currentDraft: {
+                    ...state.currentDraft,
+                    ...withDraftMedia(state.currentDraft.media.filter((file) => file.filePath !== path)),
+                    variants,
+                },
+            };
+        }),
+
+    moveDraftMedia: (path, toIndex) =>
+        set((state) => {
+            const media = [...state.currentDraft.media];
+            const fromIndex = media.findIndex((file) => file.filePath === path);
+            if (fromIndex < 0 || toIndex < 0 || toIndex >= media.length) return state;
+
+            const [file] = media.splice(fromIndex, 1);
+            media.splice(toIndex, 0, file);
+            return {
+                currentDraft: { ...state.currentDraft, ...withDraftMedia(media) },
+            };
+        }),
+
+    setDraftMediaAltText: (path, altText) =>
         set((state) => ({
             currentDraft: {
                 ...state.currentDraft,
-                mediaPaths: state.currentDraft.mediaPaths.filter((p) => p !== path),
-                contentType:
-                    state.currentDraft.mediaPaths.length <= 1 ? 'text' : state.currentDraft.contentType,
+                media: state.currentDraft.media.map((file) =>
+                    file.filePath === path ? { ...file, altText: altText || undefined } : file
+                ),
             },
         })),
 
@@ -102,25 +164,56 @@ export const usePostStore = create<PostState>((set, get) => ({
             currentDraft: { ...state.currentDraft, scheduledAt: date },
         })),
 
+    setDraftVariant: (platform, updates) =>
+        set((state) => ({
+            currentDraft: {
+                ...state.currentDraft,
+                variants: {
+                    ...state.currentDraft.variants,
+                    [platform]: { ...state.currentDraft.variants[platform], ...updates },
+                },
+            },
+        })),
+
+    resetDraftVariant: (platform) =>
+        set((state) => {
+            const { [platform]: _reset, ...variants } = state.currentDraft.variants;
+            return { currentDraft: { ...state.currentDraft, variants } };
+        }),
+
+    setDraftAutoThread: (autoThread) =>
+        set((state) => ({
+            currentDraft: { ...state.currentDraft, autoThread },
+        })),
+
     clearDraft: () =>
         set({ currentDraft: { ...initialDraft } }),
 
     // Post actions
-    addPost: (post) =>
-        set((state) => ({ posts: [...state.posts, post] })),
+    addPost: (post) => {
+        set((state) => ({ posts: [...state.posts, post] }));
+        persistWrite(postRepository.save(post), 'save post');
+        if (post.media?.length) persistWrite(postRepository.saveMedia(post.id, post.media), 'save post media');
+    },
 
-    updatePost: (id, updates) =>
+    updatePost: (id, updates) => {
         set((state) => ({
             posts: state.posts.map((p) =>
                 p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p
             ),
-        })),
+        }));
+        const post = get().posts.find((p) => p.id === id);
+        if (post) persistWrite(postRepository.save(post), 'save post');
+        if (post && updates.media) persistWrite(postRepository.saveMedia(post.id, updates.media), 'save post media');
+    },
 
-    deletePost: (id) =>
+    deletePost: (id) => {
         set((state) => ({
             posts: state.posts.filter((p) => p.id !== id),
             crossPostTargets: state.crossPostTargets.filter((t) => t.postId !== id),
-        })),
+        }));
+        persistWrite(postRepository.delete(id), 'delete post');
+    },
 
     getPostsByStatus: (status) =>
         get().posts.filter((p) => p.status === status),
@@ -129,15 +222,20 @@ export const usePostStore = create<PostState>((set, get) => ({
         get().posts.filter((p) => p.status === 'scheduled' && p.scheduledAt),
 
     // Cross-post actions
-    addCrossPostTarget: (target) =>
-        set((state) => ({ crossPostTargets: [...state.crossPostTargets, target] })),
+    addCrossPostTarget: (target) => {
+        set((state) => ({ crossPostTargets: [...state.crossPostTargets, target] }));
+        persistWrite(postRepository.saveTarget(target), 'save cross-post target');
+    },
 
-    updateCrossPostTarget: (id, updates) =>
+    updateCrossPostTarget: (id, updates) => {
         set((state) => ({
             crossPostTargets: state.crossPostTargets.map((t) =>
                 t.id === id ? { ...t, ...updates } : t
             ),
-        })),
+        }));
+        const target = get().crossPostTargets.find((t) => t.id === id);
+        if (target) persistWrite(postRepository.saveTarget(target), 'save cross-post target');
+    },
 
     // State actions
     setPosting: (posting) =>
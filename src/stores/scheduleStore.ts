@@ -1,94 +1,116 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import type { Post } from '../types';
+import { scheduleRepository } from '../repositories';
+import { persistWrite } from '../lib/database';
 
-interface ScheduledPost {
+export type ScheduledPostStatus =
+    | 'pending'
+    | 'processing'
+    | 'posted'
+    | 'failed'
+    | 'cancelled'
+    | 'missed'
+    | 'skipped';
+
+// A durable scheduler job; the scheduler reads and writes these directly
+export interface ScheduledPost {
     id: string;
     postId: string;
     scheduledAt: Date;
     createdAt: Date;
-    status: 'pending' | 'processing' | 'posted' | 'failed' | 'cancelled';
+    status: ScheduledPostStatus;
+    retryCount: number;
+    maxRetries: number;
+    // Times the job checked back on a platform still processing an upload
+    processingPolls: number;
+    lastError?: string;
 }
 
 interface ScheduleStore {
     scheduledPosts: ScheduledPost[];
 
     // Actions
-    addScheduledPost: (postId: string, scheduledAt: Date) => ScheduledPost;
+    addScheduledPost: (postId: string, scheduledAt: Date, maxRetries?: number) => ScheduledPost;
     updateScheduledPost: (id: string, updates: Partial<ScheduledPost>) => void;
     removeScheduledPost: (id: string) => void;
     cancelScheduledPost: (id: string) => void;
     getScheduledPostsForDate: (date: Date) => ScheduledPost[];
     getScheduledPostsInRange: (start: Date, end: Date) => ScheduledPost[];
     getPendingScheduledPosts: () => ScheduledPost[];
+    getMissedScheduledPosts: () => ScheduledPost[];
 }
 
-export const useScheduleStore = create<ScheduleStore>()(
-    persist(
-        (set, get) => ({
-            scheduledPosts: [],
+export const useScheduleStore = create<ScheduleStore>((set, get) => ({
+    scheduledPosts: [],
+
+    addScheduledPost: (postId: string, scheduledAt: Date, maxRetries = 3) => {
+        const newScheduled: ScheduledPost = {
+            id: crypto.randomUUID(),
+            postId,
+            scheduledAt,
+            createdAt: new Date(),
+            status: 'pending',
+            retryCount: 0,
+            maxRetries,
+            processingPolls: 0,
+        };
+        set((state) => ({
+            scheduledPosts: [...state.scheduledPosts, newScheduled],
+        }));
+        persistWrite(scheduleRepository.save(newScheduled), 'save scheduled post');
+        return newScheduled;
+    },
 
-            addScheduledPost: (postId: string, scheduledAt: Date) => {
-                const newScheduled: ScheduledPost = {
-                    id: crypto.randomUUID(),
-                    postId,
-                    scheduledAt,
-                    createdAt: new Date(),
-                    status: 'pending',
-                };
-                set((state) => ({
-                    scheduledPosts: [...state.scheduledPosts, newScheduled],
-                }));
-                return newScheduled;
-            },
+    updateScheduledPost: (id: string, updates: Partial<ScheduledPost>) => {
+        set((state) => ({
+            scheduledPosts: state.scheduledPosts.map((sp) =>
+                sp.id === id ? { ...sp, ...updates } : sp
+            ),
+        }));
+        const job = get().scheduledPosts.find((sp) => sp.id === id);
+        if (job) persistWrite(scheduleRepository.save(job), 'save scheduled post');
+    },
 
-            updateScheduledPost: (id: string, updates: Partial<ScheduledPost>) => {
-                set((state) => ({
-                    scheduledPosts: state.scheduledPosts.map((sp) =>
-                        sp.id === id ? { ...sp, ...updates } : sp
-                    ),
-                }));
-            },
+    removeScheduledPost: (id: string) => {
+        set((state) => ({
+            scheduledPosts: state.scheduledPosts.filter((sp) => sp.id !== id),
+        }));
+        persistWrite(scheduleRepository.delete(id), 'delete scheduled post');
+    },
 
-            removeScheduledPost: (id: string) => {
-                set((state) => ({
-                    scheduledPosts: state.scheduledPosts.filter((sp) => sp.id !== id),
-                }));
-            },
+    cancelScheduledPost: (id: string) => {
+        set((state) => ({
+            scheduledPosts: state.scheduledPosts.map((sp) =>
+                sp.id === id ? { ...sp, status: 'cancelled' as const } : sp
+            ),
+        }));
+        const job = get().scheduledPosts.find((sp) => sp.id === id);
+        if (job) persistWrite(scheduleRepository.save(job), 'save scheduled post');
+    },
 
-            cancelScheduledPost: (id: string) => {
-                set((state) => ({
-                    scheduledPosts: state.scheduledPosts.map((sp) =>
-                        sp.id === id ? { ...sp, status: 'cancelled' as const } : sp
-                    ),
-                }));
-            },
+    getScheduledPostsForDate: (date: Date) => {
+        const start = new Date(date);
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(date);
+        end.setHours(23, 59, 59, 999);
 
-            getScheduledPostsForDate: (date: Date) => {
-                const start = new Date(date);
-                start.setHours(0, 0, 0, 0);
-                const end = new Date(date);
-                end.setHours(23, 59, 59, 999);
+        return get().scheduledPosts.filter((sp) => {
+            const spDate = new Date(sp.scheduledAt);
+            return spDate >= start && spDate <= end;
+        });
+    },
 
-                return get().scheduledPosts.filter((sp) => {
-                    const spDate = new Date(sp.scheduledAt);
-                    return spDate >= start && spDate <= end;
-                });
-            },
+    getScheduledPostsInRange: (start: Date, end: Date) => {
+        return get().scheduledPosts.filter((sp) => {
+            const spDate = new Date(sp.scheduledAt);
+            return spDate >= start && spDate <= end;
+        });
+    },
 
-            getScheduledPostsInRange: (start: Date, end: Date) => {
-                return get().scheduledPosts.filter((sp) => {
-                    const spDate = new Date(sp.scheduledAt);
-                    return spDate >= start && spDate <= end;
-                });
-            },
+    getPendingScheduledPosts: () => {
+        return get().scheduledPosts.filter((sp) => sp.status === 'pending');
+    },
 
-            getPendingScheduledPosts: () => {
-                return get().scheduledPosts.filter((sp) => sp.status === 'pending');
-            },
-        }),
-        {
-            name: 'cross-link-schedule-storage',
-        }
-    )
-);
+    getMissedScheduledPosts: () => {
+        return get().scheduledPosts.filter((sp) => sp.status === 'missed');
+    },
+}));
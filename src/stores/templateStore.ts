@@ -1,6 +1,7 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
 import type { PostTemplate } from '../types';
+import { templateRepository } from '../repositories';
+import { persistWrite } from '../lib/database';
 
 interface TemplateStore {
     templates: PostTemplate[];
@@ -16,69 +17,70 @@ interface TemplateStore {
     getRecentTemplates: (count?: number) => PostTemplate[];
 }
 
-export const useTemplateStore = create<TemplateStore>()(
-    persist(
-        (set, get) => ({
-            templates: [],
+export const useTemplateStore = create<TemplateStore>((set, get) => ({
+    templates: [],
 
-            addTemplate: (templateData) => {
-                const newTemplate: PostTemplate = {
-                    id: crypto.randomUUID(),
-                    ...templateData,
-                    useCount: 0,
-                };
-                set((state) => ({
-                    templates: [...state.templates, newTemplate],
-                }));
-                return newTemplate;
-            },
+    addTemplate: (templateData) => {
+        const newTemplate: PostTemplate = {
+            id: crypto.randomUUID(),
+            ...templateData,
+            useCount: 0,
+        };
+        set((state) => ({
+            templates: [...state.templates, newTemplate],
+        }));
+        persistWrite(templateRepository.save(newTemplate), 'save template');
+        return newTemplate;
+    },
 
-            updateTemplate: (id, updates) => {
-                set((state) => ({
-                    templates: state.templates.map((t) =>
-                        t.id === id ? { ...t, ...updates } : t
-                    ),
-                }));
-            },
+    updateTemplate: (id, updates) => {
+        set((state) => ({
+            templates: state.templates.map((t) =>
+                t.id === id ? { ...t, ...updates } : t
+            ),
+        }));
+        const template = get().templates.find((t) => t.id === id);
+        if (template) persistWrite(templateRepository.save(template), 'save template');
+    },
 
-            deleteTemplate: (id) => {
-                set((state) => ({
-                    templates: state.templates.filter((t) => t.id !== id),
-                }));
-            },
+    deleteTemplate: (id) => {
+        set((state) => ({
+            templates: state.templates.filter((t) => t.id !== id),
+        }));
+        persistWrite(templateRepository.delete(id), 'delete template');
+    },
 
-            toggleFavorite: (id) => {
-                set((state) => ({
-                    templates: state.templates.map((t) =>
-                        t.id === id ? { ...t, isFavorite: !t.isFavorite } : t
-                    ),
-                }));
-            },
+    toggleFavorite: (id) => {
+        set((state) => ({
+            templates: state.templates.map((t) =>
+                t.id === id ? { ...t, isFavorite: !t.isFavorite } : t
+            ),
+        }));
+        const template = get().templates.find((t) => t.id === id);
+        if (template) persistWrite(templateRepository.save(template), 'save template');
+    },
 
-            incrementUseCount: (id) => {
-                set((state) => ({
-                    templates: state.templates.map((t) =>
-                        t.id === id ? { ...t, useCount: t.useCount + 1 } : t
-                    ),
-                }));
-            },
+    incrementUseCount: (id) => {
+        set((state) => ({
+            templates: state.templates.map((t) =>
+                t.id === id ? { ...t, useCount: t.useCount + 1 } : t
+            ),
+        }));
+        const template = get().templates.find((t) => t.id === id);
+        if (template) persistWrite(templateRepository.save(template), 'save template');
+    },
 
-            getTemplateById: (id) => {
-                return get().templates.find((t) => t.id === id);
-            },
+    getTemplateById: (id) => {
+        return get().templates.find((t) => t.id === id);
+    },
 
-            getFavoriteTemplates: () => {
-                return get().templates.filter((t) => t.isFavorite);
-            },
+    getFavoriteTemplates: () => {
+        return get().templates.filter((t) => t.isFavorite);
+    },
 
-            getRecentTemplates: (count = 5) => {
-                return [...get().templates]
-                    .sort((a, b) => b.useCount - a.useCount)
-                    .slice(0, count);
-            },
-        }),
-        {
-            name: 'cross-link-templates',
-        }
-    )
-);
+    getRecentTemplates: (count = 5) => {
+        return [...get().templates]
+            .sort((a, b) => b.useCount - a.useCount)
+            .slice(0, count);
+    },
+}));
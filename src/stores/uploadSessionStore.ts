@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import type { UploadSession } from '../types';
+import { uploadSessionRepository } from '../repositories';
+import { persistWrite } from '../lib/database';
+
+interface UploadSessionStore {
+    sessions: UploadSession[];
+
+    // Actions
+    getSession: (id: string) => UploadSession | undefined;
+    saveSession: (session: UploadSession) => void;
+    removeSession: (id: string) => void;
+}
+
+export const useUploadSessionStore = create<UploadSessionStore>((set, get) => ({
+    sessions: [],
+
+    getSession: (id) => get().sessions.find((s) => s.id === id),
+
+    saveSession: (session) => {
+        set((state) => ({
+            sessions: [...state.sessions.filter((s) => s.id !== session.id), session],
+        }));
+        persistWrite(uploadSessionRepository.save(session), 'save upload session');
+    },
+
+    removeSession: (id) => {
+        set((state) => ({
+            sessions: state.sessions.filter((s) => s.id !== id),
+        }));
+        persistWrite(uploadSessionRepository.delete(id), 'delete upload session');
+    },
+}));
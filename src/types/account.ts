@@ -14,10 +14,18 @@ export interface Account {
     updatedAt: Date;
 }
 
+// Runtime state of an account's platform session
+export type AccountSessionStatus = 'restoring' | 'active' | 'needs_reauth' | 'revoked';
+
 export interface AccountCredentials {
     accessToken?: string;
     refreshToken?: string;
     appPassword?: string;
     handle?: string;
+    userId?: string;
+    clientId?: string;
+    clientSecret?: string;
+    // Bluesky PDS (or other service) the account lives on
+    serviceUrl?: string;
     expiresAt?: Date;
 }
@@ -0,0 +1,53 @@
+import type { AccountCredentials } from './account';
+import type { AuthResult, PlatformType, RateLimitInfo } from './platform';
+import type { PostContent, PostResult } from './post';
+
+// What a platform can do, used to dispatch generically
+export interface PlatformCapabilities {
+    text: boolean;
+    images: boolean;
+    video: boolean;
+    requiresMedia: boolean;
+    delete: boolean;
+    // Limits reported by the account's server, overriding PLATFORM_CONFIGS
+    maxTextLength?: number;
+    maxMediaCount?: number;
+}
+
+export interface PublishProgress {
+    stage: 'uploading' | 'processing';
+    // Bytes sent so far while uploading; 0 while processing
+    loaded: number;
+    total: number;
+}
+
+export interface PublishOptions {
+    onProgress?: (progress: PublishProgress) => void;
+    // IDs of parts an earlier attempt already published; the adapter continues after them
+    checkpoint?: string[];
+    // Stable per cross-post target, for platforms that deduplicate resent requests
+    idempotencyKey?: string;
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    errors: string[];
+}
+
+/**
+ * Common contract implemented by every platform service.
+ * PostComposer and SchedulerService talk to platforms only through this.
+ */
+export interface PlatformAdapter {
+    readonly platform: PlatformType;
+    readonly capabilities: PlatformCapabilities;
+
+    authenticate(credentials: AccountCredentials): Promise<AuthResult>;
+    refresh(credentials: AccountCredentials): Promise<AuthResult>;
+    publish(content: PostContent, options?: PublishOptions): Promise<PostResult>;
+    validate(content: PostContent): ValidationResult;
+    delete(platformPostId: string): Promise<boolean>;
+    getRateLimits(): Promise<RateLimitInfo>;
+    isAuthenticated(): boolean;
+    logout(): void;
+}
@@ -1,3 +1,5 @@
 export * from './platform';
 export * from './post';
 export * from './account';
+export * from './adapter';
+export * from './mediaHost';
@@ -0,0 +1,44 @@
+// Where local media is uploaded for platforms that fetch images by URL
+export type MediaHostType = 's3' | 'http';
+
+export interface S3MediaHostConfig {
+    type: 's3';
+    // e.g. https://s3.ap-northeast-1.amazonaws.com or http://localhost:9000 for MinIO
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    // Key prefix for uploaded objects, e.g. "cross-link/"
+    prefix?: string;
+    // Address objects as endpoint/bucket/key instead of bucket.endpoint/key
+    pathStyle: boolean;
+    // Public URL the platforms fetch from; defaults to the object URL
+    publicBaseUrl?: string;
+    deleteAfterPublish: boolean;
+}
+
+export interface HttpMediaHostConfig {
+    type: 'http';
+    // Receives a multipart POST with the file and answers JSON containing the URL
+    uploadUrl: string;
+    fieldName: string;
+    // Dot path of the public URL in the response, e.g. "data.url"
+    urlField: string;
+    // Optional dot path of a URL that deletes the upload with DELETE
+    deleteUrlField?: string;
+    deleteAfterPublish: boolean;
+}
+
+export type MediaHostConfig = S3MediaHostConfig | HttpMediaHostConfig;
+
+// Stored in the credential vault, never in the persisted app settings
+export interface MediaHostSecrets {
+    secretAccessKey?: string;
+    authToken?: string;
+}
+
+export interface HostedMedia {
+    url: string;
+    // Object key or delete URL needed to remove the upload
+    ref: string;
+}
@@ -1,5 +1,5 @@
 // Platform types
-export type PlatformType = 'bluesky' | 'youtube' | 'instagram' | 'threads' | 'tiktok' | 'x';
+export type PlatformType = 'bluesky' | 'youtube' | 'instagram' | 'threads' | 'tiktok' | 'x' | 'mastodon';
 
 export interface PlatformConfig {
     id: PlatformType;
@@ -22,7 +22,9 @@ export interface AuthResult {
     username?: string;
     displayName?: string;
     avatarUrl?: string;
+    serviceUrl?: string;
     error?: string;
+    errorCode?: string;
 }
 
 export interface RateLimitInfo {
@@ -38,8 +40,9 @@ export const PLATFORM_CONFIGS: Record<PlatformType, PlatformConfig> = {
         icon: 'bluesky',
         color: '#0085FF',
         maxTextLength: 300,
-        supportedMediaTypes: ['image/jpeg', 'image/png', 'image/gif'],
+        supportedMediaTypes: ['image/jpeg', 'image/png', 'image/gif', 'video/mp4'],
         maxMediaCount: 4,
+        maxVideoLength: 180,
         requiresBusinessAccount: false
     },
     youtube: {
@@ -96,5 +99,16 @@ export const PLATFORM_CONFIGS: Record<PlatformType, PlatformConfig> = {
         maxMediaCount: 4,
         maxVideoLength: 140,
         requiresBusinessAccount: false
+    },
+    mastodon: {
+        id: 'mastodon',
+        name: 'Mastodon',
+        icon: 'mastodon',
+        color: '#6364FF',
+        // Instance default; each server reports its own limit
+        maxTextLength: 500,
+        supportedMediaTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4'],
+        maxMediaCount: 4,
+        requiresBusinessAccount: false
     }
 };
@@ -3,13 +3,30 @@ import { PlatformType } from './platform';
 export type PostStatus = 'draft' | 'scheduled' | 'posting' | 'posted' | 'partial' | 'failed';
 export type ContentType = 'text' | 'image' | 'video' | 'carousel';
 
+// Per-platform override of a post; unset fields fall back to the shared post
+export interface PlatformVariant {
+    content?: string;
+    title?: string;
+    hashtags?: string[];
+    mediaPaths?: string[];
+    // Platform publish options (e.g. TikTok privacy), sent as platformSpecific
+    options?: Record<string, unknown>;
+}
+
+export type PlatformVariants = Partial<Record<PlatformType, PlatformVariant>>;
+
 export interface Post {
     id: string;
     title?: string;
     content: string;
     contentType: ContentType;
     mediaPaths?: string[];
+    // Probed metadata for mediaPaths, stored in the media_files table
+    media?: MediaFile[];
     hashtags?: string[];
+    variants?: PlatformVariants;
+    // Split over-limit text into a reply chain on platforms that support threads
+    autoThread?: boolean;
     status: PostStatus;
     scheduledAt?: Date;
     postedAt?: Date;
@@ -23,11 +40,14 @@ export interface CrossPostTarget {
     accountId: string;
     platformPostId?: string;
     platformPostUrl?: string;
-    status: 'pending' | 'posting' | 'success' | 'failed' | 'skipped';
+    // processing: published but the platform has not finished handling the upload
+    status: 'pending' | 'posting' | 'processing' | 'success' | 'failed' | 'skipped';
     errorCode?: string;
     errorMessage?: string;
     retryCount: number;
     postedAt?: Date;
+    // IDs of the parts already published by an interrupted attempt
+    checkpoint?: string[];
 }
 
 export interface MediaFile {
@@ -41,7 +61,31 @@ export interface MediaFile {
     height?: number;
     duration?: number;
     thumbnailPath?: string;
+    // Image description for screen readers
+    altText?: string;
     sortOrder: number;
+    // Resized or re-encoded copies made to fit a platform's limits
+    derivatives?: MediaDerivative[];
+}
+
+// Resumable upload in progress, kept so it can continue after a restart
+export interface UploadSession {
+    // '{platform}:{channel id}:{media file id}'
+    id: string;
+    platform: PlatformType;
+    uploadUrl: string;
+    filePath: string;
+    fileSize: number;
+    createdAt: Date;
+}
+
+export interface MediaDerivative {
+    platform: PlatformType;
+    filePath: string;
+    fileType: string;
+    fileSize: number;
+    width: number;
+    height: number;
 }
 
 export interface PostTemplate {
@@ -59,6 +103,8 @@ export interface PostContent {
     text: string;
     media?: MediaFile[];
     hashtags?: string[];
+    // Full reply chain when the text is published as a thread; text is its first part
+    thread?: string[];
     scheduledAt?: Date;
     platformSpecific?: Record<string, unknown>;
 }
@@ -69,4 +115,6 @@ export interface PostResult {
     platformPostUrl?: string;
     error?: string;
     errorCode?: string;
+    // Set on failure when some parts went live; pass back to resume. Empty clears a saved one
+    checkpoint?: string[];
 }
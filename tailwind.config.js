@@ -14,6 +14,7 @@ export default {
         instagram: '#E4405F',
         threads: '#000000',
         tiktok: '#69C9D0',
+        mastodon: '#6364FF',
         // App colors
         primary: {
           50: '#f0f9ff',